@@ -58,7 +58,7 @@ export class DBClient {
     metadata: {
       userRequest: string;
       provider: string;
-      status: 'active' | 'completed' | 'error';
+      status: 'active' | 'completed' | 'cancelled' | 'error';
       startTime?: number;
       endTime?: number;
     }
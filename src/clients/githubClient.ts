@@ -126,6 +126,24 @@ export class GitHubClient {
     };
   }
 
+  /**
+   * Set the access token on the GitHub remotes of an existing clone
+   * Sessions are stored with token-less remote URLs, so a resumed repository needs the token
+   * of the current request to push; a stale token left in the URL is replaced
+   */
+  async injectCredentials(repoPath: string, accessToken: string): Promise<void> {
+    const repoGit = simpleGit(repoPath);
+    const remotes = await repoGit.getRemotes(true);
+
+    for (const remote of remotes) {
+      const url = remote.refs.fetch.replace(/^https:\/\/[^\/@]+@github\.com\//, 'https://github.com/');
+      const authenticatedUrl = this.injectToken(url, accessToken);
+      if (authenticatedUrl !== remote.refs.fetch) {
+        await repoGit.remote(['set-url', remote.name, authenticatedUrl]);
+      }
+    }
+  }
+
   /**
    * Extract repository name from URL
    */
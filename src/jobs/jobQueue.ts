@@ -0,0 +1,115 @@
+import { logger } from '../utils/logger';
+
+export interface QueuedJob {
+  id: string;
+  run: () => Promise<void>;
+  onPositionChange?: (position: number) => void; // 1-based position among waiting jobs
+}
+
+/**
+ * Bounded in-process job queue with configurable concurrency
+ * Jobs beyond the concurrency limit wait in FIFO order; enqueue is rejected once the queue is full
+ */
+export class JobQueue {
+  private concurrency: number;
+  private maxQueued: number;
+  private running = new Set<string>();
+  private waiting: QueuedJob[] = [];
+  private notifiedPositions = new Map<string, number>(); // Last position reported per waiting job
+
+  constructor(concurrency: number, maxQueued: number) {
+    this.concurrency = Math.max(1, concurrency);
+    this.maxQueued = Math.max(0, maxQueued);
+  }
+
+  /**
+   * Add a job - starts immediately if a slot is free, otherwise waits
+   * @returns false if the queue is full
+   */
+  enqueue(job: QueuedJob): boolean {
+    if (!this.hasCapacity()) {
+      return false;
+    }
+
+    this.waiting.push(job);
+    this.processNext();
+    this.notifyPositions();
+    return true;
+  }
+
+  /**
+   * Remove a job that hasn't started yet
+   * @returns true if the job was waiting and got removed
+   */
+  remove(jobId: string): boolean {
+    const index = this.waiting.findIndex(job => job.id === jobId);
+    if (index === -1) {
+      return false;
+    }
+
+    this.waiting.splice(index, 1);
+    this.notifiedPositions.delete(jobId);
+    this.notifyPositions();
+    return true;
+  }
+
+  /**
+   * Whether another job can be accepted (running or waiting)
+   */
+  hasCapacity(): boolean {
+    return this.running.size + this.waiting.length < this.concurrency + this.maxQueued;
+  }
+
+  getStats(): { running: number; queued: number; concurrency: number; maxQueued: number } {
+    return {
+      running: this.running.size,
+      queued: this.waiting.length,
+      concurrency: this.concurrency,
+      maxQueued: this.maxQueued
+    };
+  }
+
+  /**
+   * Start waiting jobs while slots are free
+   */
+  private processNext(): void {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.notifiedPositions.delete(job.id);
+      this.running.add(job.id);
+
+      logger.info('Starting job', {
+        component: 'JobQueue',
+        jobId: job.id,
+        running: this.running.size,
+        queued: this.waiting.length
+      });
+
+      job.run()
+        .catch(error => {
+          logger.error('Job failed', error, {
+            component: 'JobQueue',
+            jobId: job.id
+          });
+        })
+        .finally(() => {
+          this.running.delete(job.id);
+          this.processNext();
+          this.notifyPositions();
+        });
+    }
+  }
+
+  /**
+   * Report positions to waiting jobs whose position changed
+   */
+  private notifyPositions(): void {
+    this.waiting.forEach((job, index) => {
+      const position = index + 1;
+      if (this.notifiedPositions.get(job.id) !== position) {
+        this.notifiedPositions.set(job.id, position);
+        job.onPositionChange?.(position);
+      }
+    });
+  }
+}
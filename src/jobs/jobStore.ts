@@ -0,0 +1,90 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BufferedEventSink } from '../utils/eventSink';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'error';
+
+export interface Job {
+  jobId: string;
+  status: JobStatus;
+  sink: BufferedEventSink;
+  abortController: AbortController;
+  tenant?: string; // Tenant of the caller that submitted the job - only visible to that tenant
+  sessionId?: string; // Resumed session (new sessions get their ID once the job runs)
+  createdAt: string;
+  finishedAt?: string;
+}
+
+/**
+ * In-memory store for asynchronous jobs
+ * Jobs live only as long as the worker process - results must be polled from the worker that ran them
+ */
+export class JobStore {
+  private jobs = new Map<string, Job>();
+
+  /**
+   * Create a new queued job with an empty event buffer
+   */
+  create(jobId: string = uuidv4(), tenant?: string, sessionId?: string): Job {
+    const job: Job = {
+      jobId,
+      status: 'queued',
+      tenant,
+      sessionId,
+      sink: new BufferedEventSink(),
+      abortController: new AbortController(),
+      createdAt: new Date().toISOString()
+    };
+
+    this.jobs.set(job.jobId, job);
+    return job;
+  }
+
+  get(jobId: string): Job | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * Get a tenant's jobs still waiting in the queue (only those resuming the given session, if any)
+   */
+  getQueued(tenant?: string, sessionId?: string): Job[] {
+    return Array.from(this.jobs.values()).filter(job =>
+      job.status === 'queued' && job.tenant === tenant && (!sessionId || job.sessionId === sessionId));
+  }
+
+  /**
+   * Mark a job as started
+   */
+  start(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.status = 'running';
+    }
+  }
+
+  /**
+   * Mark a job as finished
+   */
+  finish(jobId: string, status: Exclude<JobStatus, 'queued' | 'running'>): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+  }
+
+  /**
+   * Forget a job after the given delay (long-running workers would otherwise keep every result)
+   */
+  expire(jobId: string, afterMs: number): void {
+    setTimeout(() => this.jobs.delete(jobId), afterMs).unref();
+  }
+
+  /**
+   * Get the session ID of a job (known up front when resuming, otherwise once the 'connected' event was sent)
+   */
+  getSessionId(jobId: string): string | undefined {
+    const job = this.jobs.get(jobId);
+    const connected = job?.sink.getEvents().find(event => event.type === 'connected');
+    return job?.sessionId ?? connected?.sessionId;
+  }
+}
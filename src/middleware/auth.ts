@@ -0,0 +1,362 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { APIError } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Actions that must be granted explicitly to a caller
+ */
+export type Permission =
+  | 'use_env_credentials' // Fall back to the worker's env credentials (FROM_ENV)
+  | 'delete_sessions'     // DELETE /sessions/:sessionId
+  | 'run_gc';             // POST /admin/gc (removes sessions of every tenant)
+
+export const ALL_PERMISSIONS: Permission[] = ['use_env_credentials', 'delete_sessions', 'run_gc'];
+
+/**
+ * Authenticated caller, attached to the request as req.auth
+ */
+export interface AuthContext {
+  principal: string; // Key ID or JWT subject
+  method: 'none' | 'apikey' | 'hmac' | 'jwt';
+  permissions: Set<Permission>;
+  tenant?: string; // Sessions are stored and listed under this tenant; undefined = default namespace
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+      rawBody?: Buffer; // Raw JSON body, needed to verify HMAC signatures
+    }
+  }
+}
+
+/**
+ * Entry of the API keys file (AUTH_KEYS_FILE)
+ * The key is sent as X-API-Key, or used as the secret for HMAC-signed requests
+ */
+interface ApiKeyConfig {
+  id: string;
+  key: string;
+  permissions?: Permission[];
+  tenant?: string;
+}
+
+/**
+ * An authentication scheme
+ * Returns null if the request doesn't carry credentials for this scheme,
+ * throws if it does but they are invalid
+ */
+interface AuthStrategy {
+  name: string;
+  authenticate(req: Request): AuthContext | null;
+}
+
+/**
+ * API key sent in the X-API-Key header
+ */
+class ApiKeyStrategy implements AuthStrategy {
+  name = 'apikey';
+  private keys: ApiKeyConfig[];
+
+  constructor(keys: ApiKeyConfig[]) {
+    this.keys = keys;
+  }
+
+  authenticate(req: Request): AuthContext | null {
+    const apiKey = req.header('X-API-Key');
+    if (!apiKey) {
+      return null;
+    }
+
+    const match = this.keys.find(entry => safeEqual(entry.key, apiKey));
+    if (!match) {
+      throw new Error('Invalid API key');
+    }
+
+    return {
+      principal: match.id,
+      method: 'apikey',
+      permissions: new Set(match.permissions || []),
+      tenant: match.tenant
+    };
+  }
+}
+
+/**
+ * HMAC-SHA256 signed request
+ * Headers: X-Key-Id, X-Timestamp (unix seconds), X-Signature (hex)
+ * Signature over: `${timestamp}.${METHOD}.${originalUrl}.${rawBody}`
+ */
+class HmacStrategy implements AuthStrategy {
+  name = 'hmac';
+  private keys: ApiKeyConfig[];
+  private maxSkewSeconds: number;
+
+  constructor(keys: ApiKeyConfig[], maxSkewSeconds: number) {
+    this.keys = keys;
+    this.maxSkewSeconds = maxSkewSeconds;
+  }
+
+  authenticate(req: Request): AuthContext | null {
+    const keyId = req.header('X-Key-Id');
+    const timestamp = req.header('X-Timestamp');
+    const signature = req.header('X-Signature');
+
+    if (!keyId && !signature) {
+      return null;
+    }
+    if (!keyId || !timestamp || !signature) {
+      throw new Error('Signed requests require X-Key-Id, X-Timestamp and X-Signature headers');
+    }
+
+    const skew = Math.abs(Date.now() / 1000 - parseInt(timestamp));
+    if (isNaN(skew) || skew > this.maxSkewSeconds) {
+      throw new Error('Request timestamp is missing or outside the allowed window');
+    }
+
+    const key = this.keys.find(entry => entry.id === keyId);
+    if (!key) {
+      throw new Error(`Unknown key ID: ${keyId}`);
+    }
+
+    const payload = `${timestamp}.${req.method}.${req.originalUrl}.${req.rawBody?.toString('utf-8') || ''}`;
+    const expected = crypto.createHmac('sha256', key.key).update(payload).digest('hex');
+    if (!safeEqual(expected, signature.toLowerCase())) {
+      throw new Error('Invalid request signature');
+    }
+
+    return {
+      principal: key.id,
+      method: 'hmac',
+      permissions: new Set(key.permissions || []),
+      tenant: key.tenant
+    };
+  }
+}
+
+/**
+ * JWT bearer token verified against a local JWKS file
+ * Supports RS256, ES256 and EdDSA; permissions come from the `permissions` claim,
+ * the tenant from the claim named by AUTH_JWT_TENANT_CLAIM (default: `tenant`)
+ */
+class JwtStrategy implements AuthStrategy {
+  name = 'jwt';
+  private keys: (crypto.JsonWebKey & { kid?: string })[];
+  private issuer?: string;
+  private audience?: string;
+  private tenantClaim: string;
+
+  constructor(
+    jwks: { keys: (crypto.JsonWebKey & { kid?: string })[] },
+    issuer?: string,
+    audience?: string,
+    tenantClaim: string = 'tenant'
+  ) {
+    this.keys = jwks.keys || [];
+    this.issuer = issuer;
+    this.audience = audience;
+    this.tenantClaim = tenantClaim;
+  }
+
+  authenticate(req: Request): AuthContext | null {
+    const authorization = req.header('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return null;
+    }
+
+    const token = authorization.substring('Bearer '.length).trim();
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) {
+      throw new Error('Malformed JWT');
+    }
+
+    let header: any;
+    let claims: any;
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+      claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'));
+    } catch {
+      throw new Error('Malformed JWT');
+    }
+
+    const jwk = header.kid
+      ? this.keys.find(key => key.kid === header.kid)
+      : (this.keys.length === 1 ? this.keys[0] : undefined);
+    if (!jwk) {
+      throw new Error('No matching key for JWT');
+    }
+
+    const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+
+    let valid: boolean;
+    switch (header.alg) {
+      case 'RS256':
+        valid = jwk.kty === 'RSA' && crypto.verify('sha256', signed, publicKey, signature);
+        break;
+      case 'ES256':
+        valid = jwk.kty === 'EC' && crypto.verify('sha256', signed, { key: publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+        break;
+      case 'EdDSA':
+        valid = jwk.kty === 'OKP' && crypto.verify(null, signed, publicKey, signature);
+        break;
+      default:
+        throw new Error(`Unsupported JWT algorithm: ${header.alg}`);
+    }
+
+    if (!valid) {
+      throw new Error('Invalid JWT signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof claims.exp === 'number' && now >= claims.exp) {
+      throw new Error('JWT has expired');
+    }
+    if (typeof claims.nbf === 'number' && now < claims.nbf) {
+      throw new Error('JWT is not yet valid');
+    }
+    if (this.issuer && claims.iss !== this.issuer) {
+      throw new Error('Invalid JWT issuer');
+    }
+    if (this.audience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.audience)) {
+        throw new Error('Invalid JWT audience');
+      }
+    }
+
+    const permissions: string[] = Array.isArray(claims.permissions) ? claims.permissions : [];
+    const tenant = claims[this.tenantClaim];
+    if (tenant !== undefined && typeof tenant !== 'string') {
+      throw new Error(`Invalid JWT ${this.tenantClaim} claim`);
+    }
+
+    return {
+      principal: claims.sub || 'jwt',
+      method: 'jwt',
+      permissions: new Set(permissions.filter((p): p is Permission => ALL_PERMISSIONS.includes(p as Permission))),
+      tenant
+    };
+  }
+}
+
+/**
+ * Constant-time string comparison
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Tenant names become part of object keys, so keep them to a safe character set
+ */
+function isValidTenant(tenant: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/.test(tenant);
+}
+
+/**
+ * Read and parse a JSON config file
+ */
+function readJsonFile(filePath: string | undefined, envName: string): any {
+  if (!filePath) {
+    throw new Error(`${envName} must be set for the configured AUTH_MODE`);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Build strategies from AUTH_MODE (comma-separated: apikey, hmac, jwt; default: none)
+ */
+function createStrategies(): AuthStrategy[] {
+  const modes = (process.env.AUTH_MODE || 'none')
+    .split(',')
+    .map(mode => mode.trim().toLowerCase())
+    .filter(mode => mode && mode !== 'none');
+
+  let keys: ApiKeyConfig[] | undefined;
+  const loadKeys = (): ApiKeyConfig[] => {
+    keys = keys || readJsonFile(process.env.AUTH_KEYS_FILE, 'AUTH_KEYS_FILE').keys || [];
+    return keys!;
+  };
+
+  return modes.map(mode => {
+    switch (mode) {
+      case 'apikey':
+        return new ApiKeyStrategy(loadKeys());
+      case 'hmac':
+        return new HmacStrategy(loadKeys(), parseInt(process.env.AUTH_HMAC_MAX_SKEW_SECONDS || '300'));
+      case 'jwt':
+        return new JwtStrategy(
+          readJsonFile(process.env.AUTH_JWKS_FILE, 'AUTH_JWKS_FILE'),
+          process.env.AUTH_JWT_ISSUER,
+          process.env.AUTH_JWT_AUDIENCE,
+          process.env.AUTH_JWT_TENANT_CLAIM || 'tenant'
+        );
+      default:
+        throw new Error(`Unsupported AUTH_MODE: ${mode}`);
+    }
+  });
+}
+
+/**
+ * Create the authentication middleware
+ * With AUTH_MODE=none (default) every request is allowed with all permissions
+ */
+export function createAuthMiddleware(): RequestHandler {
+  const strategies = createStrategies();
+
+  logger.info('API authentication configured', {
+    component: 'Auth',
+    modes: strategies.length > 0 ? strategies.map(s => s.name).join(',') : 'none'
+  });
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (strategies.length === 0) {
+      req.auth = { principal: 'anonymous', method: 'none', permissions: new Set(ALL_PERMISSIONS) };
+      next();
+      return;
+    }
+
+    try {
+      for (const strategy of strategies) {
+        const context = strategy.authenticate(req);
+        if (context) {
+          if (context.tenant !== undefined && !isValidTenant(context.tenant)) {
+            throw new Error(`Invalid tenant for ${context.principal}`);
+          }
+          req.auth = context;
+          next();
+          return;
+        }
+      }
+
+      throw new Error('Missing credentials');
+    } catch (error) {
+      logger.warn('Rejected unauthenticated request', {
+        component: 'Auth',
+        method: req.method,
+        path: req.path,
+        reason: error instanceof Error ? error.message : String(error)
+      });
+
+      const apiError: APIError = {
+        error: 'unauthorized',
+        message: error instanceof Error ? error.message : 'Unauthorized'
+      };
+      res.status(401).json(apiError);
+    }
+  };
+}
+
+/**
+ * Check whether the authenticated caller has a permission
+ */
+export function hasPermission(req: Request, permission: Permission): boolean {
+  return req.auth?.permissions.has(permission) ?? false;
+}
@@ -1,31 +1,58 @@
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ExecuteRequest, SSEEvent, SessionMetadata } from './types';
+import { ExecuteRequest, SSEEvent, SessionMetadata, ExecutionStage, SessionSnapshot, GarbageCollectionReport } from './types';
 import { GitHubClient } from './clients/githubClient';
 import { DBClient } from './clients/dbClient';
-import { SessionStorage } from './storage/sessionStorage';
+import { SessionStorage, SnapshotDetails, TransferProgress } from './storage/sessionStorage';
+import { GarbageCollectionOptions, SessionGarbageCollector } from './storage/sessionGarbageCollector';
+import { SessionLock } from './storage/sessionLock';
 import { ProviderFactory } from './providers/ProviderFactory';
-import { Response } from 'express';
 import { logger } from './utils/logger';
 import { LLMHelper, generateBranchName } from './utils/llmHelper';
 import { GitHelper } from './utils/gitHelper';
+import { EventSink } from './utils/eventSink';
+import { ClaudeCodeProvider } from './providers/ClaudeCodeProvider';
+
+/**
+ * State of an execution running on this worker
+ */
+interface ActiveExecution {
+  sessionId: string;
+  tenant?: string;
+  abortController: AbortController;
+  sessionRoot: string;
+  subscribers: Set<EventSink>; // Clients re-attached via GET /sessions/:sessionId/stream
+}
 
 /**
  * Main orchestrator for executing coding assistant requests
- * Uses MinIO for session storage - downloads session at start, uploads at end
+ * Uses the session storage backend - downloads session at start, uploads at end
  */
 export class Orchestrator {
+  // Excluded paths listed in the session metadata at most
+  private static readonly MAX_EXCLUDED_PATHS = 100;
+
   private githubClient: GitHubClient;
   private dbClient: DBClient;
   private sessionStorage: SessionStorage;
+  private garbageCollector: SessionGarbageCollector;
   private tmpDir: string;
+  private heartbeatIntervalMs: number;
+  private activeExecutions = new Map<string, ActiveExecution>();
 
   constructor(tmpDir: string, dbBaseUrl?: string) {
     this.tmpDir = tmpDir || '/tmp';
+    // Keeps idle SSE connections alive through proxies (0 disables)
+    this.heartbeatIntervalMs = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '15000');
     this.githubClient = new GitHubClient();
     this.dbClient = new DBClient(dbBaseUrl);
-    this.sessionStorage = new SessionStorage();
+    // Builds the provider registry too - a plugin or command provider that fails to load stops the startup
+    this.sessionStorage = new SessionStorage(ProviderFactory.getStateDirs());
+    this.garbageCollector = new SessionGarbageCollector(
+      this.sessionStorage,
+      (sessionId, tenant) => this.isExecutionActive(sessionId, tenant)
+    );
   }
 
   /**
@@ -33,12 +60,23 @@ export class Orchestrator {
    */
   async initialize(): Promise<void> {
     await this.sessionStorage.initialize();
+    this.garbageCollector.start();
   }
 
   /**
    * Execute a complete workflow request
+   * Events are written to the sink (live SSE response or buffered async job)
+   * Aborting the controller (or calling cancelExecution) stops the provider, skips auto-commit
+   * and still uploads the session before sending a 'cancelled' event
+   * The session is created in (or resumed from) the given tenant's namespace
+   * The session is locked for the whole run (pass a lock taken with lockSession to reject conflicts up front)
    */
-  async execute(request: ExecuteRequest, res: Response): Promise<void> {
+  async execute(
+    request: ExecuteRequest,
+    sink: EventSink,
+    options: { abortController?: AbortController; tenant?: string; lock?: SessionLock | null } = {}
+  ): Promise<void> {
+    const { abortController = new AbortController(), tenant } = options;
     const startTime = Date.now();
     let chunkIndex = 0;
     let providerSessionId: string | undefined;
@@ -48,17 +86,69 @@ export class Orchestrator {
     const isResuming = !!request.resumeSessionId;
     const sessionId = isResuming ? request.resumeSessionId! : uuidv4();
 
+    // Only one execution works on a session at a time, on any worker - held until the session is uploaded
+    // Nothing local is touched before, as the conflicting execution may be running on this worker
+    let lock: SessionLock | null;
+    try {
+      lock = options.lock !== undefined ? options.lock : await this.sessionStorage.lockSession(sessionId, tenant);
+    } catch (error) {
+      logger.error('Failed to lock session', error, {
+        component: 'Orchestrator',
+        sessionId
+      });
+      sink.send({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        code: this.getErrorCode(error),
+        timestamp: new Date().toISOString()
+      });
+      sink.end();
+      throw error;
+    }
+
+    // A lease lost to another execution stops the run - its upload is refused (see SessionLock.confirm)
+    lock?.signal.addEventListener('abort', () => abortController.abort(), { once: true });
+
+    // Recorded with the snapshot this run uploads
+    const snapshotDetails: SnapshotDetails = {
+      userRequest: request.userRequest,
+      provider: request.codingAssistantProvider,
+      exclude: request.storage?.exclude
+    };
+
     // Session root path (never changes - used for response/metadata storage)
-    const sessionRoot = path.join(this.tmpDir, `session-${sessionId}`);
+    const sessionRoot = this.getSessionRoot(sessionId, tenant);
 
     // Local workspace path (ephemeral - in /tmp, may change to repo directory)
     workspacePath = sessionRoot;
 
+    // Session-private HOME for provider state and credentials (~/.claude, ~/.codex)
+    const homeDir = SessionStorage.getHomeDir(sessionRoot);
+
+    // Register for cancellation and stream re-attachment
+    const execution: ActiveExecution = {
+      sessionId,
+      tenant,
+      abortController,
+      sessionRoot,
+      subscribers: new Set()
+    };
+    const executionKey = Orchestrator.executionKey(sessionId, tenant);
+    this.activeExecutions.set(executionKey, execution);
+
+    // Sequence number of the last event sent (continues from the persisted log when resuming)
+    let eventSeq = 0;
+
     // Helper to send SSE events
     const sendEvent = (event: SSEEvent) => {
-      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      event.seq = ++eventSeq;
 
-      // Persist to session root (not repo directory) - will be uploaded to MinIO at end
+      sink.send(event);
+      for (const subscriber of execution.subscribers) {
+        subscriber.send(event);
+      }
+
+      // Persist to session root (not repo directory) - will be uploaded to storage at end
       try {
         this.sessionStorage.appendStreamEvent(sessionId, sessionRoot, event);
       } catch (err) {
@@ -91,25 +181,87 @@ export class Orchestrator {
       }
     };
 
+    // Periodic heartbeat so long silent stages don't look like a dead connection
+    // Heartbeats are transient: not sequenced, persisted, or sent to the DB
+    let stage: ExecutionStage = 'preparing';
+    const heartbeatTimer = this.heartbeatIntervalMs > 0
+      ? setInterval(() => {
+          const heartbeat: SSEEvent = {
+            type: 'heartbeat',
+            stage,
+            elapsed_ms: Date.now() - startTime,
+            timestamp: new Date().toISOString()
+          };
+          sink.sendHeartbeat?.(heartbeat);
+          for (const subscriber of execution.subscribers) {
+            subscriber.sendHeartbeat?.(heartbeat);
+          }
+        }, this.heartbeatIntervalMs)
+      : undefined;
+
+    // Storage transfer progress is transient like heartbeats: not sequenced, persisted, or sent to the DB
+    const sendStorageProgress = (progress: TransferProgress) => {
+      const event: SSEEvent = {
+        type: 'storage_progress',
+        ...progress,
+        timestamp: new Date().toISOString()
+      };
+      sink.send(event);
+      for (const subscriber of execution.subscribers) {
+        subscriber.send(event);
+      }
+    };
+
+    // Helper to close the stream for the client and any re-attached subscribers
+    const endStream = () => {
+      clearInterval(heartbeatTimer);
+      sink.end();
+      for (const subscriber of execution.subscribers) {
+        subscriber.end();
+      }
+      execution.subscribers.clear();
+    };
+
     try {
       // Step 1: Validate request
       this.validateRequest(request);
 
-      // Step 2: Download session from MinIO (or create new)
+      // Step 2: Download session from storage (or create new)
       logger.info('Downloading session from storage', {
         component: 'Orchestrator',
         sessionId,
         isResuming,
+        tenant,
         provider: request.codingAssistantProvider
       });
 
-      const sessionExisted = await this.sessionStorage.downloadSession(sessionId, workspacePath);
+      fs.mkdirSync(homeDir, { recursive: true, mode: 0o700 });
+
+      const restoredSnapshot = await this.sessionStorage.downloadSession(
+        sessionId,
+        workspacePath,
+        tenant,
+        request.resumeSnapshot,
+        sendStorageProgress
+      );
+      const sessionExisted = restoredSnapshot !== null;
+      snapshotDetails.parentSnapshot = restoredSnapshot ?? undefined;
+      // The last run's completed/cancelled event was sent after its upload, so its seq isn't in the log
+      eventSeq = this.sessionStorage.getLastEventSeq(sessionId, sessionRoot);
+      if (eventSeq > 0) {
+        eventSeq++;
+      }
 
       // Load metadata if session exists
       let metadata: SessionMetadata | null = null;
       if (sessionExisted) {
         metadata = await this.sessionStorage.getMetadata(sessionId, workspacePath);
 
+        // Objects are already scoped by tenant prefix - this guards against misplaced or copied sessions
+        if (metadata && (metadata.tenant || undefined) !== tenant) {
+          throw new Error(`Session not found: ${sessionId}`);
+        }
+
         if (metadata) {
           providerSessionId = metadata.providerSessionId;
           logger.info('Loaded session metadata', {
@@ -125,6 +277,7 @@ export class Orchestrator {
         metadata = {
           sessionId,
           provider: request.codingAssistantProvider,
+          tenant,
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString()
         };
@@ -188,7 +341,8 @@ export class Orchestrator {
       }
 
       // Step 4: Pull GitHub repository (only for new sessions with GitHub config)
-      if (request.github && !isResuming) {
+      if (request.github?.repoUrl && !isResuming) {
+        stage = 'cloning';
         sendEvent({
           type: 'message',
           message: `Pulling repository: ${request.github.repoUrl}`,
@@ -218,7 +372,7 @@ export class Orchestrator {
         workspacePath = pullResult.targetPath;
 
         // Save updated metadata
-        this.sessionStorage.saveMetadata(sessionId, path.join(this.tmpDir, `session-${sessionId}`), metadata);
+        this.sessionStorage.saveMetadata(sessionId, sessionRoot, metadata);
 
         sendEvent({
           type: 'github_pull_progress',
@@ -276,7 +430,20 @@ export class Orchestrator {
         }
       } else if (metadata.github && isResuming) {
         // Resuming session with GitHub - workspace path should be repo directory
-        workspacePath = path.join(this.tmpDir, `session-${sessionId}`, metadata.github.clonedPath);
+        workspacePath = path.join(sessionRoot, metadata.github.clonedPath);
+
+        // Stored sessions have token-less remotes - push with this request's token
+        if (request.github?.accessToken && fs.existsSync(workspacePath)) {
+          try {
+            await this.githubClient.injectCredentials(workspacePath, request.github.accessToken);
+          } catch (error) {
+            logger.error('Failed to set repository credentials', error, {
+              component: 'Orchestrator',
+              sessionId
+            });
+            // Continue without credentials - only pushing needs them
+          }
+        }
       }
 
       // Update DB with session metadata
@@ -295,65 +462,80 @@ export class Orchestrator {
         );
       }
 
-      // Step 5: Create provider instance
-      sendEvent({
-        type: 'message',
-        message: `Executing with ${request.codingAssistantProvider}`,
-        timestamp: new Date().toISOString()
-      });
+      // Skip execution entirely if cancelled during setup
+      if (!abortController.signal.aborted) {
+        // Step 5: Create provider instance
+        stage = 'executing';
+        sendEvent({
+          type: 'message',
+          message: `Executing with ${request.codingAssistantProvider}`,
+          timestamp: new Date().toISOString()
+        });
 
-      const provider = ProviderFactory.createProvider(
-        request.codingAssistantProvider,
-        request.codingAssistantAuthentication,
-        workspacePath,
-        request.providerOptions
-      );
+        const provider = ProviderFactory.createProvider(
+          request.codingAssistantProvider,
+          request.codingAssistantAuthentication,
+          workspacePath,
+          request.providerOptions,
+          homeDir
+        );
 
-      // Step 6: Execute provider and stream results
-      await provider.execute(
-        request.userRequest,
-        {
-          authentication: request.codingAssistantAuthentication,
-          workspace: workspacePath,
-          resumeSessionId: providerSessionId, // Use provider's internal session ID
-          providerOptions: request.providerOptions
-        },
-        (event) => {
-          // Extract provider session ID from init message
-          if (event.type === 'assistant_message' &&
-              event.data?.type === 'system' &&
-              event.data?.subtype === 'init' &&
-              event.data?.session_id) {
-            const newProviderSessionId = event.data.session_id;
-            logger.info('Provider session initialized', {
-              component: 'Orchestrator',
-              sessionId,
-              providerSessionId: newProviderSessionId
-            });
+        // Step 6: Execute provider and stream results
+        await provider.execute(
+          request.userRequest,
+          {
+            authentication: request.codingAssistantAuthentication,
+            workspace: workspacePath,
+            resumeSessionId: providerSessionId, // Use provider's internal session ID
+            providerOptions: request.providerOptions,
+            abortSignal: abortController.signal
+          },
+          (event) => {
+            // Extract provider session ID from init message
+            if (event.type === 'assistant_message' &&
+                event.data?.type === 'system' &&
+                event.data?.subtype === 'init' &&
+                event.data?.session_id) {
+              const newProviderSessionId = event.data.session_id;
+              logger.info('Provider session initialized', {
+                component: 'Orchestrator',
+                sessionId,
+                providerSessionId: newProviderSessionId
+              });
 
-            // Update metadata with provider session ID
-            metadata!.providerSessionId = newProviderSessionId;
-            this.sessionStorage.saveMetadata(
-              sessionId,
-              path.join(this.tmpDir, `session-${sessionId}`),
-              metadata!
-            );
+              // Update metadata with provider session ID
+              metadata!.providerSessionId = newProviderSessionId;
+              this.sessionStorage.saveMetadata(
+                sessionId,
+                sessionRoot,
+                metadata!
+              );
+            }
+
+            // Forward provider events to SSE stream
+            sendEvent({
+              ...event,
+              timestamp: new Date().toISOString()
+            });
           }
+        );
+      }
 
-          // Forward provider events to SSE stream
-          sendEvent({
-            ...event,
-            timestamp: new Date().toISOString()
-          });
-        }
-      );
+      const cancelled = abortController.signal.aborted;
+      if (cancelled) {
+        logger.info('Execution cancelled', {
+          component: 'Orchestrator',
+          sessionId
+        });
+      }
 
-      // Step 6.5: Auto-commit changes (if enabled and GitHub session)
-      const shouldAutoCommit = request.github && (request.autoCommit !== false); // Default true for GitHub repos
+      // Step 6.5: Auto-commit changes (if enabled, GitHub session and not cancelled)
+      const shouldAutoCommit = request.github && (request.autoCommit !== false) && !cancelled; // Default true for GitHub repos
 
       if (shouldAutoCommit && metadata.github) {
+        stage = 'committing';
         try {
-          const repoPath = path.join(this.tmpDir, `session-${sessionId}`, metadata.github.clonedPath);
+          const repoPath = path.join(sessionRoot, metadata.github.clonedPath);
           const gitHelper = new GitHelper(repoPath);
 
           // Check if there are changes to commit
@@ -472,20 +654,30 @@ export class Orchestrator {
         }
       }
 
-      // Step 7: Upload session to MinIO
+      // Step 7: Upload session to storage
+      stage = 'uploading';
       logger.info('Uploading session to storage', {
         component: 'Orchestrator',
         sessionId
       });
 
-      await this.sessionStorage.uploadSession(sessionId, sessionRoot);
+      await lock?.confirm();
+      await this.recordExcludedPaths(sessionId, sessionRoot, request.storage?.exclude);
+      const snapshot = await this.sessionStorage.uploadSession(
+        sessionId,
+        sessionRoot,
+        tenant,
+        snapshotDetails,
+        sendStorageProgress
+      );
 
-      // Step 8: Send completion event
+      // Step 8: Send completion (or cancellation) event
       const duration = Date.now() - startTime;
       sendEvent({
-        type: 'completed',
+        type: cancelled ? 'cancelled' : 'completed',
         sessionId,
         duration_ms: duration,
+        snapshot: snapshot?.snapshot,
         timestamp: new Date().toISOString()
       });
 
@@ -499,13 +691,13 @@ export class Orchestrator {
           {
             userRequest: request.userRequest,
             provider: request.codingAssistantProvider,
-            status: 'completed',
+            status: cancelled ? 'cancelled' : 'completed',
             endTime: Date.now()
           }
         );
       }
 
-      logger.info('Session completed successfully', {
+      logger.info(cancelled ? 'Session cancelled' : 'Session completed successfully', {
         component: 'Orchestrator',
         sessionId,
         provider: request.codingAssistantProvider,
@@ -526,7 +718,7 @@ export class Orchestrator {
         });
       }
 
-      res.end();
+      endStream();
     } catch (error) {
       logger.error('Error during execution', error, {
         component: 'Orchestrator',
@@ -543,9 +735,12 @@ export class Orchestrator {
       });
 
       // Try to upload session even on error (preserve state)
+      stage = 'uploading';
       try {
         if (workspacePath && fs.existsSync(sessionRoot)) {
-          await this.sessionStorage.uploadSession(sessionId, sessionRoot);
+          await lock?.confirm();
+          await this.recordExcludedPaths(sessionId, sessionRoot, request.storage?.exclude);
+          await this.sessionStorage.uploadSession(sessionId, sessionRoot, tenant, snapshotDetails, sendStorageProgress);
         }
       } catch (uploadErr) {
         logger.error('Failed to upload session after error', uploadErr, {
@@ -585,11 +780,218 @@ export class Orchestrator {
         }));
       }
 
-      res.end();
+      endStream();
       throw error; // Re-throw to trigger worker exit
+    } finally {
+      clearInterval(heartbeatTimer);
+      this.activeExecutions.delete(executionKey);
+
+      // Session HOME holds credentials - never leave it behind, even if workspace cleanup failed
+      fs.rmSync(homeDir, { recursive: true, force: true });
+
+      await lock?.release();
+    }
+  }
+
+  /**
+   * Local root directory of a session on this worker
+   */
+  private getSessionRoot(sessionId: string, tenant?: string): string {
+    return tenant
+      ? path.join(this.tmpDir, `tenant-${tenant}`, `session-${sessionId}`)
+      : path.join(this.tmpDir, `session-${sessionId}`);
+  }
+
+  /**
+   * Record the workspace paths the upload leaves out in the session metadata,
+   * so clients know what to regenerate after resuming
+   * Failures are logged only - the session is uploaded regardless
+   */
+  private async recordExcludedPaths(sessionId: string, sessionRoot: string, exclude?: string[]): Promise<void> {
+    try {
+      const metadata = await this.sessionStorage.getMetadata(sessionId, sessionRoot);
+      if (!metadata) {
+        return;
+      }
+
+      const excludedPaths = await this.sessionStorage.findExcludedPaths(sessionRoot, exclude);
+      metadata.excludedPaths = excludedPaths.length > 0
+        ? excludedPaths.slice(0, Orchestrator.MAX_EXCLUDED_PATHS)
+        : undefined;
+      metadata.excludedPathsTruncated = excludedPaths.length > Orchestrator.MAX_EXCLUDED_PATHS || undefined;
+      this.sessionStorage.saveMetadata(sessionId, sessionRoot, metadata);
+    } catch (err) {
+      logger.error('Failed to record excluded paths', err, {
+        component: 'Orchestrator',
+        sessionId
+      });
     }
   }
 
+  /**
+   * Fork a session into a new, independent session
+   * Copies the source session (latest or given snapshot) under a new session ID with fresh metadata;
+   * the stream history is not carried over. GitHub sessions get a new webedt/... branch, and the
+   * provider session ID is kept so the fork resumes the same conversation
+   * The source is locked while it's copied - throws 'Session is locked' if an execution holds it
+   * @returns Metadata of the new session, or null if the source session doesn't exist
+   */
+  async forkSession(sourceSessionId: string, tenant?: string, snapshot?: number): Promise<SessionMetadata | null> {
+    const sessionId = uuidv4();
+    const sourceRoot = this.getSessionRoot(sourceSessionId, tenant);
+    const sessionRoot = this.getSessionRoot(sessionId, tenant);
+    const homeDir = SessionStorage.getHomeDir(sessionRoot);
+
+    try {
+      fs.mkdirSync(homeDir, { recursive: true, mode: 0o700 });
+
+      const sourceLock = await this.sessionStorage.lockSession(sourceSessionId, tenant);
+      let sourceSnapshot: number | null;
+      try {
+        sourceSnapshot = await this.sessionStorage.downloadSession(sourceSessionId, sessionRoot, tenant, snapshot);
+      } finally {
+        await sourceLock?.release();
+      }
+      if (sourceSnapshot === null) {
+        return null;
+      }
+
+      const source = await this.sessionStorage.getMetadata(sourceSessionId, sessionRoot);
+      if (source && (source.tenant || undefined) !== tenant) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const metadata: SessionMetadata = {
+        sessionId,
+        sessionName: source?.sessionName,
+        providerSessionId: source?.providerSessionId,
+        provider: source?.provider || 'unknown',
+        tenant,
+        createdAt: now,
+        updatedAt: now,
+        github: source?.github ? { ...source.github } : undefined,
+        // The copied snapshot lacks the same paths as the source
+        excludedPaths: source?.excludedPaths,
+        excludedPathsTruncated: source?.excludedPathsTruncated,
+        forkedFrom: {
+          sessionId: sourceSessionId,
+          snapshot: sourceSnapshot
+        }
+      };
+
+      // The fork starts a new stream history
+      fs.rmSync(path.join(sessionRoot, '.stream-events.jsonl'), { force: true });
+
+      // The workspace moved from the source's session root to the fork's
+      ClaudeCodeProvider.relocateProjectState(homeDir, sourceRoot, sessionRoot);
+
+      if (metadata.github) {
+        const branchName = generateBranchName(metadata.sessionName || 'fork', sessionId.split('-')[0]);
+        await new GitHelper(path.join(sessionRoot, metadata.github.clonedPath)).createBranch(branchName);
+        metadata.github.branchName = branchName;
+      }
+
+      this.sessionStorage.saveMetadata(sessionId, sessionRoot, metadata);
+      await this.sessionStorage.uploadSession(sessionId, sessionRoot, tenant, {
+        provider: metadata.provider
+      });
+
+      logger.info('Session forked', {
+        component: 'Orchestrator',
+        sessionId,
+        sourceSessionId,
+        sourceSnapshot,
+        branchName: metadata.github?.branchName
+      });
+
+      return metadata;
+    } finally {
+      fs.rmSync(sessionRoot, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Key of an execution in activeExecutions - the same session ID may exist in several tenants
+   */
+  private static executionKey(sessionId: string, tenant?: string): string {
+    return `${tenant || ''}:${sessionId}`;
+  }
+
+  /**
+   * Cancel running executions of a tenant on this worker
+   * Cancels the given session, or every active execution of the tenant if no session ID is given
+   * @returns IDs of the sessions that were cancelled
+   */
+  cancelExecution(sessionId?: string, tenant?: string): string[] {
+    const executions = sessionId
+      ? [this.activeExecutions.get(Orchestrator.executionKey(sessionId, tenant))].filter((e): e is ActiveExecution => !!e)
+      : Array.from(this.activeExecutions.values()).filter(e => e.tenant === tenant);
+
+    for (const execution of executions) {
+      logger.info('Cancelling execution', {
+        component: 'Orchestrator',
+        sessionId: execution.sessionId,
+        tenant
+      });
+      execution.abortController.abort();
+    }
+
+    return executions.map(e => e.sessionId);
+  }
+
+  /**
+   * Lock a session for an execution (see execute)
+   * Throws 'Session is locked' if another execution, on any worker, holds it
+   * @returns The lock, or null if session storage is disabled
+   */
+  async lockSession(sessionId: string, tenant?: string): Promise<SessionLock | null> {
+    return await this.sessionStorage.lockSession(sessionId, tenant);
+  }
+
+  /**
+   * Check if a session of a tenant is currently executing on this worker
+   */
+  isExecutionActive(sessionId: string, tenant?: string): boolean {
+    return this.activeExecutions.has(Orchestrator.executionKey(sessionId, tenant));
+  }
+
+  /**
+   * Re-attach a client to an in-progress session stream
+   * Replays persisted events after afterSeq from the local .stream-events.jsonl, then forwards live events
+   * @returns Function to detach the sink, or null if the session is not executing on this worker
+   */
+  attachToSession(
+    sessionId: string,
+    sink: EventSink,
+    afterSeq: number = 0,
+    tenant?: string
+  ): (() => void) | null {
+    const execution = this.activeExecutions.get(Orchestrator.executionKey(sessionId, tenant));
+    if (!execution) {
+      return null;
+    }
+
+    // Replay and subscribe synchronously so no live event can slip in between
+    const events = this.sessionStorage.getStreamEvents(sessionId, execution.sessionRoot);
+    for (const event of events) {
+      if (event.seq !== undefined && event.seq > afterSeq) {
+        sink.send(event);
+      }
+    }
+    execution.subscribers.add(sink);
+
+    logger.info('Client re-attached to session stream', {
+      component: 'Orchestrator',
+      sessionId,
+      afterSeq
+    });
+
+    return () => {
+      execution.subscribers.delete(sink);
+    };
+  }
+
   /**
    * Extract API key from authentication string
    * Handles both OAuth JSON format and plain API keys
@@ -641,15 +1043,34 @@ export class Orchestrator {
       );
     }
 
-    // Cannot provide both GitHub and resumeSessionId
-    if (request.github && request.resumeSessionId) {
-      throw new Error(
-        'Cannot provide both "github" and "resumeSessionId". ' +
-        'When resuming a session, the repository is already available in the session workspace.'
-      );
+    if (request.resumeSessionId && !SessionStorage.isValidSessionId(request.resumeSessionId)) {
+      throw new Error(`Invalid resumeSessionId: ${request.resumeSessionId}`);
+    }
+
+    const exclude = request.storage?.exclude;
+    if (exclude !== undefined && (!Array.isArray(exclude) || exclude.some(pattern => typeof pattern !== 'string'))) {
+      throw new Error('Invalid storage.exclude: expected an array of patterns');
     }
 
-    if (request.github) {
+    if (request.resumeSnapshot !== undefined) {
+      if (!request.resumeSessionId) {
+        throw new Error('Invalid resumeSnapshot: requires resumeSessionId');
+      }
+      if (!Number.isInteger(request.resumeSnapshot) || request.resumeSnapshot < 0) {
+        throw new Error(`Invalid resumeSnapshot: ${request.resumeSnapshot}`);
+      }
+    }
+
+    // A resumed session already has its repository - only credentials (to push) can be given
+    if (request.github && request.resumeSessionId) {
+      if (request.github.repoUrl || request.github.branch || request.github.directory) {
+        throw new Error(
+          'Cannot provide both "github.repoUrl" and "resumeSessionId". ' +
+          'When resuming a session, the repository is already available in the session workspace; ' +
+          'pass only github.accessToken to push changes.'
+        );
+      }
+    } else if (request.github) {
       if (!request.github.repoUrl || request.github.repoUrl.trim() === '') {
         throw new Error('github.repoUrl is required when github integration is enabled');
       }
@@ -669,32 +1090,100 @@ export class Orchestrator {
    * Get error code from error object
    */
   private getErrorCode(error: any): string {
+    if (error.message?.startsWith('Session is locked')) {
+      return 'session_locked';
+    }
+    if (error.message?.startsWith('Session lock lost')) {
+      return 'session_lock_lost';
+    }
     if (error.message?.includes('Session not found')) {
       return 'session_not_found';
     }
+    if (error.message?.includes('Snapshot not found')) {
+      return 'snapshot_not_found';
+    }
     if (error.message?.includes('token')) {
       return 'auth_error';
     }
     if (error.message?.includes('repository') || error.message?.includes('not found')) {
       return 'repo_not_found';
     }
-    if (error.message?.includes('Cannot provide both')) {
+    if (error.message?.includes('Cannot provide both') || /^Invalid (resume|storage)/.test(error.message || '')) {
       return 'invalid_request';
     }
     return 'internal_error';
   }
 
   /**
-   * List all sessions (from MinIO)
+   * Name of the session storage backend, or null if session storage is disabled
+   */
+  getStorageBackend(): string | null {
+    return this.sessionStorage.backendName;
+  }
+
+  /**
+   * Human-readable session storage location
+   */
+  describeStorage(): string {
+    return this.sessionStorage.describeBackend();
+  }
+
+  /**
+   * List the tenant's sessions (from storage)
+   */
+  async listSessions(tenant?: string): Promise<string[]> {
+    return await this.sessionStorage.listSessions(tenant);
+  }
+
+  /**
+   * Get session metadata (from storage)
+   */
+  async getSession(sessionId: string, tenant?: string): Promise<SessionMetadata | null> {
+    return await this.sessionStorage.getStoredMetadata(sessionId, tenant);
+  }
+
+  /**
+   * Get persisted stream events for a session (from storage)
+   */
+  async getSessionStreamEvents(sessionId: string, tenant?: string): Promise<SSEEvent[] | null> {
+    return await this.sessionStorage.getStoredStreamEvents(sessionId, tenant);
+  }
+
+  /**
+   * List a session's snapshots (from storage)
+   */
+  async listSnapshots(sessionId: string, tenant?: string): Promise<SessionSnapshot[]> {
+    return await this.sessionStorage.listSnapshots(sessionId, tenant);
+  }
+
+  /**
+   * Make an older snapshot the latest state of a session (in storage)
+   * @returns The new snapshot, or null if the snapshot doesn't exist
+   */
+  async restoreSnapshot(sessionId: string, snapshot: number, tenant?: string): Promise<SessionSnapshot | null> {
+    return await this.sessionStorage.restoreSnapshot(sessionId, snapshot, tenant);
+  }
+
+  /**
+   * Run session garbage collection (retention TTL and tenant quotas) across all tenants
+   * Throws if a run is already in progress
+   */
+  async collectGarbage(options: GarbageCollectionOptions = {}): Promise<GarbageCollectionReport> {
+    return await this.garbageCollector.run(options);
+  }
+
+  /**
+   * Check if a garbage collection run is in progress on this worker
    */
-  async listSessions(): Promise<string[]> {
-    return await this.sessionStorage.listSessions();
+  isGarbageCollectionRunning(): boolean {
+    return this.garbageCollector.isRunning();
   }
 
   /**
-   * Delete a session (from MinIO)
+   * Delete a session and all of its objects (from storage)
+   * @returns Names of the removed objects - empty if the session doesn't exist
    */
-  async deleteSession(sessionId: string): Promise<void> {
-    await this.sessionStorage.deleteSession(sessionId);
+  async deleteSession(sessionId: string, tenant?: string): Promise<string[]> {
+    return await this.sessionStorage.deleteSession(sessionId, tenant);
   }
 }
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseProvider, ProviderOptions, ProviderStreamEvent } from './BaseProvider';
+import { runProcess } from '../utils/processRunner';
+
+// Environment variables the authentication may set (the model backends' keys and endpoints)
+const CREDENTIAL_ENV_PATTERN = /^[A-Z][A-Z0-9_]*_(API_KEY|API_BASE|API_VERSION)$/;
+
+/**
+ * Aider provider (https://aider.chat), run non-interactively with --message in the workspace
+ * Aider prints plain text; it is forwarded as Claude Code style messages (text, Edit tool uses, result)
+ * The chat history is kept in ~/.aider and restored when the session is resumed
+ * The CLI binary is AIDER_CLI_PATH (default: aider on PATH)
+ */
+export class AiderProvider extends BaseProvider {
+  private model?: string;
+  private credentialEnv: Record<string, string>;
+
+  constructor(authentication: string, workspace: string, model?: string, homeDir?: string) {
+    super(authentication, workspace, homeDir);
+    this.model = model;
+    this.credentialEnv = AiderProvider.parseCredentials(authentication);
+  }
+
+  /**
+   * API keys for Aider's model backends
+   * Either a JSON object of environment variables ({ "ANTHROPIC_API_KEY": "...", "OPENAI_API_KEY": "..." })
+   * or a single key (sk-ant-... is used for Anthropic, anything else for OpenAI)
+   */
+  private static parseCredentials(authentication: string): Record<string, string> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(authentication);
+    } catch {
+      const name = authentication.startsWith('sk-ant-') ? 'ANTHROPIC_API_KEY' : 'OPENAI_API_KEY';
+      return { [name]: authentication };
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Invalid Aider authentication: expected an API key or an object of API keys');
+    }
+    const env: Record<string, string> = {};
+    for (const [name, value] of Object.entries(parsed)) {
+      if (!CREDENTIAL_ENV_PATTERN.test(name) || typeof value !== 'string') {
+        throw new Error(`Invalid Aider authentication: ${name} (expected *_API_KEY, *_API_BASE or *_API_VERSION strings)`);
+      }
+      env[name] = value;
+    }
+    return env;
+  }
+
+  async execute(
+    userRequest: string,
+    options: ProviderOptions,
+    onEvent: (event: ProviderStreamEvent) => void
+  ): Promise<void> {
+    const { abortSignal } = options;
+    const command = process.env.AIDER_CLI_PATH || 'aider';
+    const stateDir = path.join(this.homeDir, '.aider');
+    const startTime = Date.now();
+
+    // Aider has no session of its own - the ID marks the chat history to continue on resume
+    const sessionId = options.resumeSessionId || `aider-${uuidv4()}`;
+    const resuming = !!options.resumeSessionId && fs.existsSync(path.join(stateDir, 'chat.history.md'));
+    fs.mkdirSync(stateDir, { recursive: true, mode: 0o700 });
+    this.excludeAiderFiles();
+
+    const args = this.createArgs(userRequest, options, stateDir, resuming);
+
+    console.log('[AiderProvider] Starting execution with options:', {
+      command,
+      model: options.providerOptions?.model || this.model,
+      cwd: this.workspace,
+      resumeSessionId: options.resumeSessionId,
+      restoringHistory: resuming
+    });
+
+    const emit = (data: any) => onEvent({ type: 'assistant_message', data: { ...data, session_id: sessionId } });
+    emit({ type: 'system', subtype: 'init', provider: 'aider', cwd: this.workspace });
+
+    // Response text is forwarded a paragraph at a time
+    let paragraph: string[] = [];
+    let usage: string | undefined;
+    let editCount = 0;
+    const flush = () => {
+      if (paragraph.some(line => line.trim() !== '')) {
+        emit({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: paragraph.join('\n') }] } });
+      }
+      paragraph = [];
+    };
+
+    const result = await runProcess(command, args, {
+      cwd: this.workspace,
+      // HOME keeps Aider away from the worker's own config and caches
+      env: { ...process.env, ...this.credentialEnv, HOME: this.homeDir },
+      abortSignal,
+      onStdoutLine: (line) => {
+        const applied = line.match(/^Applied edit to (.+)$/);
+        if (applied) {
+          flush();
+          const id = `aider-edit-${++editCount}`;
+          emit({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'tool_use', id, name: 'Edit', input: { file_path: applied[1] } }] } });
+          emit({ type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: id, content: line, is_error: false }] } });
+          return;
+        }
+        if (line.startsWith('Tokens: ')) {
+          usage = line;
+          return;
+        }
+        if (line.trim() === '') {
+          flush();
+          return;
+        }
+        paragraph.push(line);
+      },
+      onStderrLine: (line) => console.error('[AiderProvider] stderr:', line)
+    });
+    flush();
+
+    if (result.aborted) {
+      console.log('[AiderProvider] Execution cancelled');
+      return;
+    }
+
+    if (result.exitCode !== 0) {
+      const reason = result.stderrTail.slice(-5).join('\n') || `signal ${result.signal}`;
+      emit({ type: 'result', subtype: 'error_during_execution', is_error: true, duration_ms: Date.now() - startTime, error_message: reason });
+      throw new Error(`Aider exited with code ${result.exitCode}: ${reason}`);
+    }
+
+    emit({ type: 'result', subtype: 'success', is_error: false, duration_ms: Date.now() - startTime, usage });
+    console.log('[AiderProvider] Execution completed successfully');
+  }
+
+  /**
+   * Keep Aider's files in the repository (e.g. its .aider.tags.cache) out of the worker's auto-commit
+   * Uses the repository's local exclude file, so nothing committed changes
+   */
+  private excludeAiderFiles(): void {
+    const gitDir = path.join(this.workspace, '.git');
+    if (!fs.existsSync(gitDir) || !fs.statSync(gitDir).isDirectory()) {
+      return;
+    }
+
+    const excludePath = path.join(gitDir, 'info', 'exclude');
+    const content = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, 'utf-8') : '';
+    if (!content.split('\n').includes('.aider*')) {
+      fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+      fs.appendFileSync(excludePath, `${content && !content.endsWith('\n') ? '\n' : ''}.aider*\n`);
+    }
+  }
+
+  /**
+   * Arguments of a non-interactive Aider run
+   */
+  private createArgs(userRequest: string, options: ProviderOptions, stateDir: string, restoreHistory: boolean): string[] {
+    const model = options.providerOptions?.model || this.model;
+
+    const args = [
+      // A single argument, so a request starting with '-' isn't read as an option
+      `--message=${userRequest}`,
+      '--yes-always',
+      '--no-pretty',
+      '--no-fancy-input',
+      '--no-check-update',
+      '--no-show-release-notes',
+      '--analytics-disable',
+      '--chat-history-file', path.join(stateDir, 'chat.history.md'),
+      '--input-history-file', path.join(stateDir, 'input.history'),
+      // The worker commits and pushes GitHub sessions itself (autoCommit) and leaves .gitignore alone
+      '--no-auto-commits',
+      '--no-dirty-commits',
+      '--no-gitignore'
+    ];
+    // Without a repository Aider would create one
+    if (!fs.existsSync(path.join(this.workspace, '.git'))) {
+      args.push('--no-git');
+    }
+    if (model) {
+      args.push('--model', model);
+    }
+    if (restoreHistory) {
+      args.push('--restore-chat-history');
+    }
+    return args;
+  }
+
+  async validateToken(): Promise<boolean> {
+    return Object.keys(this.credentialEnv).length > 0;
+  }
+
+  getProviderName(): string {
+    return 'aider';
+  }
+}
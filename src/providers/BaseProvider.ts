@@ -1,3 +1,4 @@
+import * as os from 'os';
 import { ExecuteRequest } from '../types';
 
 export interface ProviderOptions {
@@ -5,6 +6,7 @@ export interface ProviderOptions {
   workspace: string;
   resumeSessionId?: string;
   providerOptions?: Record<string, any>;
+  abortSignal?: AbortSignal; // Aborted when the execution is cancelled
 }
 
 export interface ProviderStreamEvent {
@@ -18,14 +20,17 @@ export interface ProviderStreamEvent {
 export abstract class BaseProvider {
   protected authentication: string;
   protected workspace: string;
+  protected homeDir: string; // HOME for provider state and credentials (~/.claude, ~/.codex)
 
-  constructor(authentication: string, workspace: string) {
+  constructor(authentication: string, workspace: string, homeDir: string = os.homedir()) {
     this.authentication = authentication;
     this.workspace = workspace;
+    this.homeDir = homeDir;
   }
 
   /**
    * Execute a user request and stream results
+   * Implementations should stop streaming and resolve (not reject) when options.abortSignal is aborted
    * @param userRequest The user's prompt/instruction
    * @param options Provider-specific options
    * @param onEvent Callback for each streaming event
@@ -1,4 +1,6 @@
 import { query, type Options, type SDKMessage } from '@anthropic-ai/claude-agent-sdk';
+import * as fs from 'fs';
+import * as path from 'path';
 import { BaseProvider, ProviderOptions, ProviderStreamEvent } from './BaseProvider';
 import { CredentialManager } from '../utils/credentialManager';
 
@@ -8,12 +10,12 @@ import { CredentialManager } from '../utils/credentialManager';
 export class ClaudeCodeProvider extends BaseProvider {
   private model: string;
 
-  constructor(authentication: string, workspace: string, model?: string) {
-    super(authentication, workspace);
+  constructor(authentication: string, workspace: string, model?: string, homeDir?: string) {
+    super(authentication, workspace, homeDir);
     this.model = model || 'claude-sonnet-4-5-20250929';
 
     // Write authentication to ~/.claude/.credentials.json
-    CredentialManager.writeClaudeCredentials(authentication);
+    CredentialManager.writeClaudeCredentials(authentication, this.homeDir);
   }
 
   /**
@@ -25,6 +27,17 @@ export class ClaudeCodeProvider extends BaseProvider {
     onEvent: (event: ProviderStreamEvent) => void
   ): Promise<void> {
     const queryOptions = this.createQueryOptions(options);
+    const { abortSignal } = options;
+
+    // Abort the Claude Code query when the execution is cancelled
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    if (abortSignal?.aborted) {
+      abortController.abort();
+    } else {
+      abortSignal?.addEventListener('abort', onAbort, { once: true });
+    }
+    queryOptions.abortController = abortController;
 
     console.log('[ClaudeCodeProvider] Starting execution with options:', {
       model: queryOptions.model,
@@ -43,6 +56,11 @@ export class ClaudeCodeProvider extends BaseProvider {
 
       // Stream messages from Claude Code
       for await (const message of queryStream) {
+        if (abortSignal?.aborted) {
+          console.log('[ClaudeCodeProvider] Execution cancelled');
+          break;
+        }
+
         lastMessage = message;
 
         // Log important message types
@@ -80,6 +98,12 @@ export class ClaudeCodeProvider extends BaseProvider {
 
       console.log('[ClaudeCodeProvider] Execution completed successfully');
     } catch (error) {
+      // Cancellation aborts the query stream - not an execution failure
+      if (abortSignal?.aborted) {
+        console.log('[ClaudeCodeProvider] Execution cancelled');
+        return;
+      }
+
       console.error('[ClaudeCodeProvider] Execution error:', error);
       console.error('[ClaudeCodeProvider] Error details:', {
         message: error instanceof Error ? error.message : String(error),
@@ -90,6 +114,8 @@ export class ClaudeCodeProvider extends BaseProvider {
 
       // Re-throw to let orchestrator handle
       throw error;
+    } finally {
+      abortSignal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -99,7 +125,7 @@ export class ClaudeCodeProvider extends BaseProvider {
    */
   async validateToken(): Promise<boolean> {
     try {
-      const credPath = CredentialManager.getClaudeCredentialPath();
+      const credPath = CredentialManager.getClaudeCredentialPath(this.homeDir);
       return CredentialManager.credentialFileExists(credPath);
     } catch (error) {
       console.error('[ClaudeCodeProvider] Token validation failed:', error);
@@ -114,6 +140,29 @@ export class ClaudeCodeProvider extends BaseProvider {
     return 'claude-code';
   }
 
+  /**
+   * Move Claude Code's per-project state after a workspace has moved (e.g. into a forked session)
+   * ~/.claude/projects/ is keyed by the working directory with every non-alphanumeric character
+   * replaced by '-'; without renaming, `resume` can't find the conversation under the new path
+   */
+  static relocateProjectState(homeDir: string, fromPath: string, toPath: string): void {
+    const projectsDir = path.join(homeDir, '.claude', 'projects');
+    if (!fs.existsSync(projectsDir)) {
+      return;
+    }
+
+    const encode = (dir: string) => dir.replace(/[^a-zA-Z0-9]/g, '-');
+    const fromKey = encode(fromPath);
+    const toKey = encode(toPath);
+
+    for (const entry of fs.readdirSync(projectsDir)) {
+      // Prefix match also covers the cloned repository directory below the session root
+      if (entry.startsWith(fromKey)) {
+        fs.renameSync(path.join(projectsDir, entry), path.join(projectsDir, toKey + entry.substring(fromKey.length)));
+      }
+    }
+  }
+
   /**
    * Create Claude Code query options
    */
@@ -128,6 +177,8 @@ export class ClaudeCodeProvider extends BaseProvider {
       systemPrompt: `You are Claude Code, running in a containerized environment. The working directory is ${this.workspace}.`,
       allowDangerouslySkipPermissions: skipPermissions,
       permissionMode: skipPermissions ? 'bypassPermissions' : 'default',
+      // Claude Code reads ~/.claude from HOME
+      env: { ...process.env, HOME: this.homeDir },
     };
 
     // Add resume option if session ID is provided
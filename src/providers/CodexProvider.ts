@@ -1,18 +1,44 @@
+import * as path from 'path';
 import { BaseProvider, ProviderOptions, ProviderStreamEvent } from './BaseProvider';
 import { CredentialManager } from '../utils/credentialManager';
+import { runProcess } from '../utils/processRunner';
 
 /**
- * Codex provider for Cursor/OpenAI Codex integration
- *
- * Note: This is a placeholder implementation. The actual Cursor/Codex SDK
- * integration will be added when the SDK is available.
+ * Item of a Codex CLI event (item.started / item.updated / item.completed)
+ */
+interface CodexItem {
+  id: string;
+  type: string; // agent_message, reasoning, command_execution, file_change, mcp_tool_call, web_search, todo_list, error
+  [key: string]: any;
+}
+
+/**
+ * A line of `codex exec --json` output
+ */
+interface CodexEvent {
+  type: string; // thread.started, turn.started, turn.completed, turn.failed, item.*, error
+  thread_id?: string;
+  item?: CodexItem;
+  usage?: Record<string, number>;
+  error?: { message: string };
+  message?: string;
+}
+
+/**
+ * Codex provider backed by the Codex CLI (`codex exec --json`)
+ * Runs the CLI non-interactively in the workspace and translates its JSONL events into the
+ * Claude Code message shapes the rest of the worker and its clients already understand
+ * The CLI binary is CODEX_CLI_PATH (default: codex on PATH)
  */
 export class CodexProvider extends BaseProvider {
-  constructor(authentication: string, workspace: string) {
-    super(authentication, workspace);
+  private model?: string;
+
+  constructor(authentication: string, workspace: string, model?: string, homeDir?: string) {
+    super(authentication, workspace, homeDir);
+    this.model = model;
 
     // Write authentication to ~/.codex/auth.json
-    CredentialManager.writeCodexCredentials(authentication);
+    CredentialManager.writeCodexCredentials(authentication, this.homeDir);
   }
 
   async execute(
@@ -20,35 +46,197 @@ export class CodexProvider extends BaseProvider {
     options: ProviderOptions,
     onEvent: (event: ProviderStreamEvent) => void
   ): Promise<void> {
-    console.log('[CodexProvider] Starting execution...');
-
-    // Send init message
-    onEvent({
-      type: 'assistant_message',
-      data: {
-        type: 'system',
-        subtype: 'init',
-        session_id: `codex-${Date.now()}`,
-        message: 'Codex provider initialized'
-      }
+    const { abortSignal, resumeSessionId } = options;
+    const command = process.env.CODEX_CLI_PATH || 'codex';
+    const args = this.createArgs(userRequest, options);
+    const startTime = Date.now();
+
+    console.log('[CodexProvider] Starting execution with options:', {
+      command,
+      model: options.providerOptions?.model || this.model,
+      cwd: this.workspace,
+      resumeSessionId
     });
 
-    // TODO: Integrate with actual Cursor/Codex SDK
-    // For now, send a placeholder message
-    onEvent({
-      type: 'assistant_message',
-      data: {
-        type: 'text',
-        text: 'Codex provider is not yet fully implemented. This is a placeholder response.'
-      }
+    let threadId = resumeSessionId;
+    let failure: string | undefined;
+
+    const emit = (data: any) => onEvent({ type: 'assistant_message', data });
+
+    const result = await runProcess(command, args, {
+      cwd: this.workspace,
+      // Codex reads auth.json and keeps its sessions (needed for resume) in CODEX_HOME
+      env: { ...process.env, HOME: this.homeDir, CODEX_HOME: path.join(this.homeDir, '.codex') },
+      abortSignal,
+      onStdoutLine: (line) => {
+        let event: CodexEvent;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          console.log('[CodexProvider] Output:', line);
+          return;
+        }
+
+        if (event.type === 'thread.started' && event.thread_id) {
+          threadId = event.thread_id;
+          console.log('[CodexProvider] Codex initialized, session:', threadId);
+        }
+        // Only a failed turn is final - 'error' events also report stream errors the CLI retries
+        if (event.type === 'turn.failed') {
+          failure = event.error?.message || event.message || event.type;
+        }
+
+        for (const message of CodexProvider.toMessages(event, threadId, startTime)) {
+          emit(message);
+        }
+      },
+      onStderrLine: (line) => console.error('[CodexProvider] stderr:', line)
+    });
+
+    if (result.aborted) {
+      console.log('[CodexProvider] Execution cancelled');
+      return;
+    }
+
+    // A failed turn fails the run even if the CLI exits with 0 (its error result was already forwarded)
+    if (result.exitCode !== 0 || failure) {
+      const reason = failure || result.stderrTail.slice(-5).join('\n') || `signal ${result.signal}`;
+      throw new Error(`Codex CLI failed (exit code ${result.exitCode}): ${reason}`);
+    }
+
+    console.log('[CodexProvider] Execution completed successfully');
+  }
+
+  /**
+   * Arguments of `codex exec` for a request (resuming the Codex session if there is one)
+   */
+  private createArgs(userRequest: string, options: ProviderOptions): string[] {
+    const { resumeSessionId, providerOptions = {} } = options;
+    const skipPermissions = providerOptions.skipPermissions ?? true;
+    const model = providerOptions.model || this.model;
+
+    const args = [
+      'exec',
+      '--json',
+      '--cd', this.workspace,
+      // Sessions without a GitHub repository have no git repository in the workspace
+      '--skip-git-repo-check',
+      // The worker container is the sandbox; --full-auto keeps Codex's own sandbox (workspace writes only)
+      skipPermissions ? '--dangerously-bypass-approvals-and-sandbox' : '--full-auto'
+    ];
+    if (model) {
+      args.push('--model', model);
+    }
+    if (resumeSessionId) {
+      args.push('resume', resumeSessionId);
+    }
+
+    // End of options - a prompt starting with '-' is still the prompt
+    args.push('--', userRequest);
+    return args;
+  }
+
+  /**
+   * Translate a Codex CLI event into Claude Code style messages
+   * (system init, assistant text/thinking/tool_use, user tool_result, result)
+   */
+  private static toMessages(event: CodexEvent, sessionId: string | undefined, startTime: number): any[] {
+    const assistant = (content: any[]) => ({
+      type: 'assistant',
+      message: { role: 'assistant', content },
+      session_id: sessionId
     });
+    const toolResult = (item: CodexItem, content: string, isError: boolean) => ({
+      type: 'user',
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: item.id, content, is_error: isError }] },
+      session_id: sessionId
+    });
+
+    switch (event.type) {
+      case 'thread.started':
+        return [{ type: 'system', subtype: 'init', session_id: event.thread_id, provider: 'codex' }];
+
+      case 'turn.completed':
+        return [{
+          type: 'result',
+          subtype: 'success',
+          is_error: false,
+          duration_ms: Date.now() - startTime,
+          usage: event.usage,
+          session_id: sessionId
+        }];
+
+      case 'error':
+        // Non-terminal (e.g. a dropped stream being retried) - the turn still ends with turn.completed or turn.failed
+        return [{ type: 'system', subtype: 'error', message: event.error?.message || event.message, session_id: sessionId }];
+
+      case 'turn.failed':
+        return [{
+          type: 'result',
+          subtype: 'error_during_execution',
+          is_error: true,
+          duration_ms: Date.now() - startTime,
+          error_message: event.error?.message || event.message,
+          session_id: sessionId
+        }];
 
-    console.log('[CodexProvider] Execution completed');
+      case 'item.started': {
+        const item = event.item!;
+        if (item.type === 'command_execution') {
+          return [assistant([{ type: 'tool_use', id: item.id, name: 'Bash', input: { command: item.command } }])];
+        }
+        if (item.type === 'mcp_tool_call') {
+          return [assistant([{
+            type: 'tool_use',
+            id: item.id,
+            name: `mcp__${item.server}__${item.tool}`,
+            input: item.arguments ?? {}
+          }])];
+        }
+        return [];
+      }
+
+      case 'item.completed': {
+        const item = event.item!;
+        switch (item.type) {
+          case 'agent_message':
+            return [assistant([{ type: 'text', text: item.text }])];
+          case 'reasoning':
+            return [assistant([{ type: 'thinking', thinking: item.text }])];
+          case 'command_execution':
+            return [toolResult(item, item.aggregated_output ?? '', item.exit_code !== 0)];
+          case 'mcp_tool_call':
+            return [toolResult(
+              item,
+              item.error?.message ?? JSON.stringify(item.result ?? null),
+              item.status === 'failed'
+            )];
+          case 'file_change':
+            // Applied by Codex itself - reported as a completed edit
+            return [
+              assistant([{ type: 'tool_use', id: item.id, name: 'Edit', input: { changes: item.changes } }]),
+              toolResult(item, (item.changes || []).map((c: any) => `${c.kind} ${c.path}`).join('\n'), item.status === 'failed')
+            ];
+          case 'web_search':
+            return [assistant([{ type: 'tool_use', id: item.id, name: 'WebSearch', input: { query: item.query } }])];
+          case 'todo_list':
+            return [assistant([{ type: 'tool_use', id: item.id, name: 'TodoWrite', input: { todos: item.items } }])];
+          case 'error':
+            return [assistant([{ type: 'text', text: `Error: ${item.message}` }])];
+          default:
+            return [];
+        }
+      }
+
+      default:
+        // turn.started, item.updated (progress of items reported on completion)
+        return [];
+    }
   }
 
   async validateToken(): Promise<boolean> {
     try {
-      const credPath = CredentialManager.getCodexCredentialPath();
+      const credPath = CredentialManager.getCodexCredentialPath(this.homeDir);
       return CredentialManager.credentialFileExists(credPath);
     } catch (error) {
       console.error('[CodexProvider] Token validation failed:', error);
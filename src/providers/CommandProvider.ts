@@ -0,0 +1,451 @@
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { BaseProvider, ProviderOptions, ProviderStreamEvent } from './BaseProvider';
+import { ProviderRegistry } from './ProviderRegistry';
+import { CredentialManager } from '../utils/credentialManager';
+import { runProcess } from '../utils/processRunner';
+
+/**
+ * An argument template: a string, or a group of strings that is left out as a whole
+ * if any placeholder in it has no value (e.g. ["--model", "{model}"] without a model)
+ * Placeholders: {prompt}, {workspace}, {home}, {model}, {sessionId}, {credential}, {credential.<field>}
+ */
+type ArgTemplate = string | string[];
+
+/**
+ * How a command's stdout is turned into messages
+ *   text  - every line is assistant text (blank lines separate messages)
+ *   jsonl - JSON lines; fields (dotted paths) name the text, session ID and error of a line,
+ *           and `where` only takes the text of lines whose fields have the given values
+ *   regex - patterns (first capture group, or the whole match) for the text, session ID and error;
+ *           without a text pattern, every other line is text
+ */
+type OutputDefinition =
+  | { format: 'text' }
+  | { format: 'jsonl'; fields: OutputFields; where?: Record<string, string | number | boolean> }
+  | { format: 'regex'; patterns: OutputFields };
+
+interface OutputFields {
+  text?: string;
+  sessionId?: string;
+  error?: string;
+}
+
+/**
+ * A command-line agent provider, as declared in COMMAND_PROVIDERS_FILE
+ */
+export interface CommandProviderDefinition {
+  name: string;
+  aliases?: string[];
+  command: string;
+  args: ArgTemplate[];           // "{resumeArgs}" marks where resumeArgs go (default: at the end)
+  resumeArgs?: ArgTemplate[];    // Added when resuming, e.g. ["--resume", "{sessionId}"]
+  input?: string;                // Template written to stdin, e.g. "{prompt}"
+  env?: Record<string, string>;  // Templates; variables whose placeholders have no value are left out
+  credentialFile?: {
+    path: string;                // Relative to the session HOME, e.g. ".gemini/credentials.json"
+    format: 'json' | 'text' | 'env';
+    key?: string;                // Field of a plain-string credential, in the file and as {credential.<key>} (default: apiKey)
+  };
+  stateDir?: string;             // Directory in the session HOME kept with the session (e.g. ".gemini"), needed for resume
+  defaultModel?: string;
+  output?: OutputDefinition;     // Default: text
+}
+
+/**
+ * A line of command output, as read by the output parser
+ */
+interface ParsedLine {
+  text?: string;
+  sessionId?: string;
+  error?: string;
+}
+
+/**
+ * Provider running a command-line agent declared in a JSON config (see CommandProviderDefinition)
+ * Output is forwarded as Claude Code style messages (system init, assistant text, result)
+ */
+export class CommandProvider extends BaseProvider {
+  private definition: CommandProviderDefinition;
+  private model?: string;
+  private parse: (line: string) => ParsedLine | null;
+
+  constructor(definition: CommandProviderDefinition, authentication: string, workspace: string, model?: string, homeDir?: string) {
+    super(authentication, workspace, homeDir);
+    this.definition = definition;
+    this.model = model || definition.defaultModel;
+    this.parse = this.createParser();
+
+    if (definition.credentialFile) {
+      this.writeCredentialFile(definition.credentialFile);
+    }
+  }
+
+  /**
+   * Validate the provider definitions of a config file ({ "providers": [...] })
+   * Throws on the first invalid definition
+   */
+  static parseDefinitions(config: any): CommandProviderDefinition[] {
+    const definitions: CommandProviderDefinition[] = config?.providers;
+    if (!Array.isArray(definitions)) {
+      throw new Error('Invalid command providers config: expected { "providers": [...] }');
+    }
+
+    for (const definition of definitions) {
+      const fail = (message: string): never => {
+        throw new Error(`Invalid command provider ${definition?.name ?? '(unnamed)'}: ${message}`);
+      };
+      const isArgs = (args: unknown) => Array.isArray(args) && args.every(arg =>
+        typeof arg === 'string' || (Array.isArray(arg) && arg.every(part => typeof part === 'string')));
+
+      // Names and stateDir are checked when registering (see ProviderRegistry)
+      if (typeof definition?.name !== 'string' || (definition.aliases !== undefined && !Array.isArray(definition.aliases))) {
+        fail('name (and aliases) are required');
+      }
+      if (typeof definition.command !== 'string' || definition.command === '') {
+        fail('command is required');
+      }
+      if (!isArgs(definition.args) || (definition.resumeArgs !== undefined && !isArgs(definition.resumeArgs))) {
+        fail('args and resumeArgs must be arrays of strings or string groups');
+      }
+      if (definition.env !== undefined && Object.values(definition.env).some(value => typeof value !== 'string')) {
+        fail('env values must be strings');
+      }
+
+      const credentialFile = definition.credentialFile;
+      if (credentialFile) {
+        const parts = path.posix.normalize(credentialFile.path || '').split('/');
+        if (path.posix.isAbsolute(credentialFile.path || '') || parts.includes('..') || parts[0] === '.' || parts[0] === '') {
+          fail('credentialFile.path must be a path inside HOME');
+        }
+        if (!['json', 'text', 'env'].includes(credentialFile.format)) {
+          fail(`unsupported credentialFile.format ${credentialFile.format}`);
+        }
+        // Only top-level files of an archived directory can be kept out of the session archive
+        if (parts[0] === definition.stateDir && parts.length !== 2) {
+          fail('credentialFile must be directly in stateDir');
+        }
+      }
+
+      const output = definition.output ?? { format: 'text' };
+      const format: unknown = output.format;
+      if (output.format === 'regex') {
+        for (const pattern of Object.values(output.patterns || {})) {
+          try {
+            new RegExp(pattern as string);
+          } catch (error) {
+            fail(`invalid output pattern ${pattern}: ${(error as Error).message}`);
+          }
+        }
+      } else if (output.format === 'jsonl') {
+        if (!output.fields || typeof output.fields !== 'object') {
+          fail('output.fields is required for jsonl output');
+        }
+      } else if (output.format !== 'text') {
+        fail(`unsupported output.format ${format}`);
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Register the providers of a config file (see parseDefinitions)
+   * Register them after the other providers: a credential file may not be in another provider's state directory
+   */
+  static register(registry: ProviderRegistry, definitions: CommandProviderDefinition[]): void {
+    for (const definition of definitions) {
+      const parts = path.posix.normalize(definition.credentialFile?.path || '').split('/');
+      const inOwnStateDir = parts[0] === definition.stateDir;
+      if (parts.length > 1 && !inOwnStateDir && registry.getStateDirs().some(stateDir => stateDir.name === parts[0])) {
+        throw new Error(`Invalid command provider ${definition.name}: credentialFile is in the state directory ${parts[0]} of another provider`);
+      }
+
+      // Templates using {model} honour providerOptions.model
+      const templates = JSON.stringify([definition.args, definition.resumeArgs, definition.input, definition.env]);
+      registry.register({
+        name: definition.name,
+        aliases: definition.aliases,
+        capabilities: {
+          resume: !!definition.resumeArgs || !!definition.stateDir,
+          models: templates.includes('{model}'),
+          skipPermissions: false
+        },
+        stateDir: definition.stateDir ? { name: definition.stateDir, secretNames: inOwnStateDir ? [parts[1]] : [] } : undefined,
+        create: ({ authentication, workspace, options, homeDir }) =>
+          new CommandProvider(definition, authentication, workspace, options?.model, homeDir)
+      });
+    }
+  }
+
+  async execute(
+    userRequest: string,
+    options: ProviderOptions,
+    onEvent: (event: ProviderStreamEvent) => void
+  ): Promise<void> {
+    const { abortSignal } = options;
+    const { name, command } = this.definition;
+    const startTime = Date.now();
+
+    // Commands without session IDs of their own are resumed by this ID (and their stateDir)
+    let sessionId = options.resumeSessionId || `${name}-${uuidv4()}`;
+    const values = this.placeholderValues(userRequest, options);
+
+    const args = this.expandArgs(this.definition.args, values, options.resumeSessionId ? this.definition.resumeArgs : undefined);
+    const env: NodeJS.ProcessEnv = { ...process.env, HOME: this.homeDir };
+    for (const [variable, template] of Object.entries(this.definition.env || {})) {
+      const value = CommandProvider.expand(template, values);
+      if (value !== undefined) {
+        env[variable] = value;
+      }
+    }
+
+    console.log(`[CommandProvider:${name}] Starting execution with options:`, {
+      command,
+      model: values.model,
+      cwd: this.workspace,
+      resumeSessionId: options.resumeSessionId
+    });
+
+    const emit = (data: any) => onEvent({ type: 'assistant_message', data: { ...data, session_id: sessionId } });
+    emit({ type: 'system', subtype: 'init', provider: name, cwd: this.workspace });
+
+    const jsonl = this.definition.output?.format === 'jsonl';
+    let paragraph: string[] = [];
+    let failure: string | undefined;
+    const flush = () => {
+      if (paragraph.length > 0) {
+        emit({ type: 'assistant', message: { role: 'assistant', content: [{ type: 'text', text: paragraph.join('\n') }] } });
+      }
+      paragraph = [];
+    };
+
+    const result = await runProcess(command, args, {
+      cwd: this.workspace,
+      env,
+      input: this.definition.input !== undefined ? CommandProvider.expand(this.definition.input, values) : undefined,
+      abortSignal,
+      onStdoutLine: (line) => {
+        const parsed = this.parse(line);
+        if (!parsed) {
+          return;
+        }
+
+        if (parsed.sessionId && parsed.sessionId !== sessionId) {
+          // The command's own session ID - re-sent as init so it's stored for resume
+          flush();
+          sessionId = parsed.sessionId;
+          emit({ type: 'system', subtype: 'init', provider: name, cwd: this.workspace });
+        }
+        if (parsed.error) {
+          failure = parsed.error;
+        }
+        if (parsed.text !== undefined) {
+          if (parsed.text.trim() === '') {
+            flush();
+          } else {
+            paragraph.push(parsed.text);
+          }
+          // A JSON line is a message of its own; text output is forwarded a paragraph at a time
+          if (jsonl) {
+            flush();
+          }
+        }
+      },
+      onStderrLine: (line) => console.error(`[CommandProvider:${name}] stderr:`, line)
+    });
+    flush();
+
+    if (result.aborted) {
+      console.log(`[CommandProvider:${name}] Execution cancelled`);
+      return;
+    }
+
+    if (result.exitCode !== 0 || failure) {
+      const reason = failure || result.stderrTail.slice(-5).join('\n') || `signal ${result.signal}`;
+      emit({ type: 'result', subtype: 'error_during_execution', is_error: true, duration_ms: Date.now() - startTime, error_message: reason });
+      throw new Error(`${name} failed (exit code ${result.exitCode}): ${reason}`);
+    }
+
+    emit({ type: 'result', subtype: 'success', is_error: false, duration_ms: Date.now() - startTime });
+    console.log(`[CommandProvider:${name}] Execution completed successfully`);
+  }
+
+  /**
+   * Values of the template placeholders (undefined = no value)
+   */
+  private placeholderValues(userRequest: string, options: ProviderOptions): Record<string, string | undefined> {
+    const values: Record<string, string | undefined> = {
+      prompt: userRequest,
+      workspace: this.workspace,
+      home: this.homeDir,
+      model: options.providerOptions?.model || this.model,
+      sessionId: options.resumeSessionId,
+      credential: this.authentication
+    };
+
+    for (const [field, value] of Object.entries(this.credentialFields())) {
+      if (typeof value === 'string' || typeof value === 'number') {
+        values[`credential.${field}`] = String(value);
+      }
+    }
+
+    return values;
+  }
+
+  /**
+   * Replace the placeholders of a template
+   * @returns undefined if a placeholder has no value
+   */
+  private static expand(template: string, values: Record<string, string | undefined>): string | undefined {
+    let missing = false;
+    const expanded = template.replace(/\{([A-Za-z][A-Za-z0-9_.-]*)\}/g, (match, name: string) => {
+      const value = values[name];
+      if (value === undefined) {
+        missing = true;
+        return match;
+      }
+      return value;
+    });
+    return missing ? undefined : expanded;
+  }
+
+  /**
+   * Expand the argument templates, with the resume arguments at "{resumeArgs}" (or at the end)
+   */
+  private expandArgs(
+    templates: ArgTemplate[],
+    values: Record<string, string | undefined>,
+    resumeArgs?: ArgTemplate[]
+  ): string[] {
+    const args: string[] = [];
+    let resumePlaced = false;
+
+    for (const template of templates) {
+      if (template === '{resumeArgs}') {
+        args.push(...(resumeArgs ? this.expandArgs(resumeArgs, values) : []));
+        resumePlaced = true;
+        continue;
+      }
+
+      const group = (Array.isArray(template) ? template : [template]).map(part => CommandProvider.expand(part, values));
+      if (group.every((part): part is string => part !== undefined)) {
+        args.push(...group);
+      }
+    }
+
+    if (resumeArgs && !resumePlaced) {
+      args.push(...this.expandArgs(resumeArgs, values));
+    }
+    return args;
+  }
+
+  /**
+   * Create the parser of a stdout line
+   * @returns Function returning what a line holds (null to skip the line)
+   */
+  private createParser(): (line: string) => ParsedLine | null {
+    const output = this.definition.output ?? { format: 'text' };
+
+    switch (output.format) {
+      case 'jsonl': {
+        const get = (value: any, fieldPath?: string): string | undefined => {
+          if (!fieldPath) {
+            return undefined;
+          }
+          const found = fieldPath.split('.').reduce((current, key) => current?.[key], value);
+          return found === undefined || found === null ? undefined : String(found);
+        };
+
+        return (line) => {
+          let value: any;
+          try {
+            value = JSON.parse(line);
+          } catch {
+            console.log(`[CommandProvider:${this.definition.name}] Output:`, line);
+            return null;
+          }
+          const isText = Object.entries(output.where || {}).every(([field, expected]) => get(value, field) === String(expected));
+          return {
+            text: isText ? get(value, output.fields.text) : undefined,
+            sessionId: get(value, output.fields.sessionId),
+            error: get(value, output.fields.error)
+          };
+        };
+      }
+
+      case 'regex': {
+        const compile = (pattern?: string) => pattern ? new RegExp(pattern) : undefined;
+        const text = compile(output.patterns.text);
+        const sessionId = compile(output.patterns.sessionId);
+        const error = compile(output.patterns.error);
+        const match = (pattern: RegExp | undefined, line: string): string | undefined => {
+          const found = pattern ? line.match(pattern) : null;
+          return found ? (found[1] ?? found[0]) : undefined;
+        };
+
+        return (line) => {
+          const parsed: ParsedLine = {
+            sessionId: match(sessionId, line),
+            error: match(error, line)
+          };
+          if (text) {
+            parsed.text = match(text, line);
+          } else if (!parsed.sessionId && !parsed.error) {
+            parsed.text = line;
+          }
+          return parsed;
+        };
+      }
+
+      default:
+        return (line) => ({ text: line });
+    }
+  }
+
+  /**
+   * Fields of the authentication: a JSON object as is, a plain credential under
+   * credentialFile.key (default: apiKey)
+   */
+  private credentialFields(): Record<string, unknown> {
+    try {
+      const parsed = JSON.parse(this.authentication);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Plain credential
+    }
+    return { [this.definition.credentialFile?.key || 'apiKey']: this.authentication };
+  }
+
+  /**
+   * Write the credential file declared by the provider (inside the session HOME)
+   */
+  private writeCredentialFile(credentialFile: NonNullable<CommandProviderDefinition['credentialFile']>): void {
+    const credentialPath = path.join(this.homeDir, credentialFile.path);
+    const credentials = this.credentialFields();
+
+    switch (credentialFile.format) {
+      case 'json':
+        CredentialManager.writeCredentialFile(credentialPath, credentials);
+        break;
+      case 'env':
+        CredentialManager.writeCredentialText(
+          credentialPath,
+          Object.entries(credentials).map(([name, value]) => `${name}=${value}\n`).join('')
+        );
+        break;
+      default:
+        CredentialManager.writeCredentialText(credentialPath, this.authentication);
+    }
+  }
+
+  async validateToken(): Promise<boolean> {
+    return this.authentication.trim() !== '';
+  }
+
+  getProviderName(): string {
+    return this.definition.name;
+  }
+}
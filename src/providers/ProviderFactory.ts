@@ -1,59 +1,134 @@
+import * as fs from 'fs';
 import { BaseProvider } from './BaseProvider';
 import { ClaudeCodeProvider } from './ClaudeCodeProvider';
 import { CodexProvider } from './CodexProvider';
+import { AiderProvider } from './AiderProvider';
+import { CommandProvider } from './CommandProvider';
+import { ProviderRegistration, ProviderRegistry } from './ProviderRegistry';
+import { ProviderStateDir } from '../storage/sessionStorage';
+
+/**
+ * Providers built into the worker
+ * Their credential files are written from the request on every run (see CredentialManager), never archived
+ */
+const BUILT_IN_PROVIDERS: ProviderRegistration[] = [
+  {
+    name: 'claude-code',
+    aliases: ['claude', 'claudeagentsdk'],
+    capabilities: { resume: true, models: true, skipPermissions: true },
+    stateDir: { name: '.claude', secretNames: ['.credentials.json'] },
+    create: ({ authentication, workspace, options, homeDir }) =>
+      new ClaudeCodeProvider(authentication, workspace, options?.model, homeDir)
+  },
+  {
+    name: 'codex',
+    aliases: ['cursor', 'codexsdk'],
+    capabilities: { resume: true, models: true, skipPermissions: true },
+    stateDir: { name: '.codex', secretNames: ['auth.json'] },
+    create: ({ authentication, workspace, options, homeDir }) =>
+      new CodexProvider(authentication, workspace, options?.model, homeDir)
+  },
+  {
+    name: 'aider',
+    capabilities: { resume: true, models: true, skipPermissions: false },
+    // Chat history (Aider's API keys are passed in its environment, never written)
+    stateDir: { name: '.aider' },
+    create: ({ authentication, workspace, options, homeDir }) =>
+      new AiderProvider(authentication, workspace, options?.model, homeDir)
+  }
+];
 
 /**
  * Factory for creating coding assistant provider instances
+ * Providers come from a registry (see ProviderRegistry), built on first use from:
+ *   the built-in providers, the plugins of PROVIDER_PLUGINS (modules) and PROVIDER_PLUGINS_DIR,
+ *   and the command-line agents of COMMAND_PROVIDERS_FILE
  */
 export class ProviderFactory {
+  private static registry: ProviderRegistry | null = null;
+
   /**
    * Create a provider instance based on provider name
+   * @param homeDir HOME for provider state and credentials (defaults to the process home)
    */
   static createProvider(
     providerName: string,
     authentication: string,
     workspace: string,
-    options?: Record<string, any>
+    options?: Record<string, any>,
+    homeDir?: string
   ): BaseProvider {
-    const normalizedName = providerName.toLowerCase().trim();
-
-    switch (normalizedName) {
-      case 'claude-code':
-      case 'claude':
-      case 'claudeagentsdk':
-        return new ClaudeCodeProvider(authentication, workspace, options?.model);
-
-      case 'codex':
-      case 'cursor':
-      case 'codexsdk':
-        return new CodexProvider(authentication, workspace);
-
-      // Future providers:
-      // case 'copilot':
-      //   return new CopilotProvider(accessToken, workspace);
-      // case 'aider':
-      //   return new AiderProvider(accessToken, workspace);
-
-      default:
-        throw new Error(
-          `Unsupported provider: ${providerName}. ` +
-          `Supported providers: ${this.getSupportedProviders().join(', ')}`
-        );
+    const registration = this.getRegistry().get(providerName);
+    if (!registration) {
+      throw new Error(
+        `Unsupported provider: ${providerName}. ` +
+        `Supported providers: ${this.getSupportedProviders().join(', ')}`
+      );
     }
+
+    return registration.create({ authentication, workspace, options, homeDir });
   }
 
   /**
-   * Get list of supported providers
+   * Get list of supported providers (names and aliases)
    */
   static getSupportedProviders(): string[] {
-    return ['claude-code', 'claude', 'claudeagentsdk', 'codex', 'cursor', 'codexsdk'];
+    return this.getRegistry().getNames();
   }
 
   /**
    * Check if a provider is supported
    */
   static isProviderSupported(providerName: string): boolean {
-    const normalizedName = providerName.toLowerCase().trim();
-    return this.getSupportedProviders().includes(normalizedName);
+    return this.getRegistry().get(providerName) !== undefined;
+  }
+
+  /**
+   * The registered providers with their aliases and capabilities
+   */
+  static describeProviders(): { name: string; aliases: string[]; capabilities: ProviderRegistration['capabilities'] }[] {
+    return this.getRegistry().list().map(({ name, aliases = [], capabilities }) => ({ name, aliases, capabilities }));
+  }
+
+  /**
+   * State directories of the providers, archived with the sessions
+   */
+  static getStateDirs(): ProviderStateDir[] {
+    return this.getRegistry().getStateDirs();
+  }
+
+  /**
+   * The provider registry, built on first use
+   * Throws if a plugin or COMMAND_PROVIDERS_FILE can't be loaded or declares an invalid provider
+   */
+  static getRegistry(): ProviderRegistry {
+    if (this.registry) {
+      return this.registry;
+    }
+
+    const registry = new ProviderRegistry();
+    for (const registration of BUILT_IN_PROVIDERS) {
+      registry.register(registration);
+    }
+
+    const plugins = (process.env.PROVIDER_PLUGINS || '').split(',').map(plugin => plugin.trim()).filter(Boolean);
+    registry.loadPlugins(plugins, process.env.PROVIDER_PLUGINS_DIR || undefined);
+
+    const configPath = process.env.COMMAND_PROVIDERS_FILE;
+    if (configPath) {
+      let config: any;
+      try {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      } catch (error) {
+        throw new Error(`Failed to read COMMAND_PROVIDERS_FILE ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const definitions = CommandProvider.parseDefinitions(config);
+      CommandProvider.register(registry, definitions);
+      console.log(`[ProviderFactory] Loaded command providers from ${configPath}: ${definitions.map(d => d.name).join(', ')}`);
+    }
+
+    this.registry = registry;
+    return registry;
   }
 }
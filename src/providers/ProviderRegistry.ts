@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaseProvider } from './BaseProvider';
+import { ProviderStateDir } from '../storage/sessionStorage';
+
+/**
+ * What a provider supports, for clients choosing one (see GET /health)
+ */
+export interface ProviderCapabilities {
+  resume: boolean;          // Continues its own conversation when a session is resumed
+  models: boolean;          // Honours providerOptions.model
+  skipPermissions: boolean; // Honours providerOptions.skipPermissions
+}
+
+/**
+ * Everything a provider is created with for a run
+ */
+export interface ProviderContext {
+  authentication: string;
+  workspace: string;
+  options?: Record<string, any>; // providerOptions of the request
+  homeDir?: string;              // HOME for provider state and credentials
+}
+
+/**
+ * A provider as registered: its names, what it supports and how to create it
+ */
+export interface ProviderRegistration {
+  name: string;
+  aliases?: string[];
+  capabilities: ProviderCapabilities;
+  stateDir?: ProviderStateDir;   // Directory in the session HOME archived with the session
+  create(context: ProviderContext): BaseProvider;
+}
+
+/**
+ * A provider plugin: a module exporting register(registry), from npm or a plugins directory
+ */
+interface ProviderPlugin {
+  register(registry: ProviderRegistry): void;
+}
+
+/**
+ * Registry of the providers a worker can run, by name and alias (case-insensitive)
+ */
+export class ProviderRegistry {
+  private registrations: ProviderRegistration[] = [];
+  private byName = new Map<string, ProviderRegistration>();
+
+  /**
+   * Add a provider
+   * Throws if one of its names or its state directory is already taken
+   */
+  register(registration: ProviderRegistration): void {
+    const names = [registration.name, ...(registration.aliases || [])].map(name => ProviderRegistry.normalize(name));
+
+    for (const name of names) {
+      if (!/^[a-z0-9][a-z0-9._-]*$/.test(name)) {
+        throw new Error(`Invalid provider ${registration.name}: invalid name ${name}`);
+      }
+      if (this.byName.has(name)) {
+        throw new Error(`Invalid provider ${registration.name}: name ${name} is already taken by ${this.byName.get(name)!.name}`);
+      }
+    }
+    if (typeof registration.create !== 'function') {
+      throw new Error(`Invalid provider ${registration.name}: create must be a function`);
+    }
+
+    const stateDir = registration.stateDir?.name;
+    if (stateDir !== undefined) {
+      if (!/^\.[A-Za-z0-9_-][A-Za-z0-9._-]*$/.test(stateDir)) {
+        throw new Error(`Invalid provider ${registration.name}: invalid stateDir ${stateDir} (a '.' directory in HOME)`);
+      }
+      const owner = this.registrations.find(other => other.stateDir?.name === stateDir);
+      if (owner) {
+        throw new Error(`Invalid provider ${registration.name}: stateDir ${stateDir} is already used by ${owner.name}`);
+      }
+    }
+
+    const registered = { ...registration, name: names[0], aliases: names.slice(1) };
+    this.registrations.push(registered);
+    for (const name of names) {
+      this.byName.set(name, registered);
+    }
+  }
+
+  /**
+   * The provider registered under a name or alias
+   */
+  get(name: string): ProviderRegistration | undefined {
+    return this.byName.get(ProviderRegistry.normalize(name));
+  }
+
+  /**
+   * Every registered provider (each once, in registration order)
+   */
+  list(): ProviderRegistration[] {
+    return [...this.registrations];
+  }
+
+  /**
+   * Every name and alias a provider can be requested by
+   */
+  getNames(): string[] {
+    return [...this.byName.keys()];
+  }
+
+  /**
+   * State directories of the registered providers, archived with the sessions
+   */
+  getStateDirs(): ProviderStateDir[] {
+    return this.registrations.flatMap(registration => registration.stateDir ? [registration.stateDir] : []);
+  }
+
+  /**
+   * Load provider plugins, each registering its providers
+   * @param modules Module names (npm packages) or paths (relative to the working directory)
+   * @param pluginsDir Directory of plugins: every .js file and package directory in it
+   */
+  loadPlugins(modules: string[], pluginsDir?: string): void {
+    const specifiers = modules.map(module => module.startsWith('.') ? path.resolve(module) : module);
+
+    if (pluginsDir) {
+      const dir = path.resolve(pluginsDir);
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+        if ((entry.isFile() && entry.name.endsWith('.js')) ||
+            (entry.isDirectory() && fs.existsSync(path.join(dir, entry.name, 'package.json')))) {
+          specifiers.push(path.join(dir, entry.name));
+        }
+      }
+    }
+
+    for (const specifier of specifiers) {
+      let plugin: ProviderPlugin;
+      try {
+        const loaded = require(specifier);
+        plugin = typeof loaded.register === 'function' ? loaded : loaded.default;
+      } catch (error) {
+        // First line only - module resolution errors go on with the require stack
+        const reason = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+        throw new Error(`Failed to load provider plugin ${specifier}: ${reason}`);
+      }
+      if (typeof plugin?.register !== 'function') {
+        throw new Error(`Invalid provider plugin ${specifier}: expected a register(registry) export`);
+      }
+
+      // Registered into a copy, so a plugin failing halfway adds none of its providers
+      const staging = this.copy();
+      try {
+        plugin.register(staging);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to register provider plugin ${specifier}: ${reason}`);
+      }
+
+      const added = staging.registrations.slice(this.registrations.length);
+      this.registrations = staging.registrations;
+      this.byName = staging.byName;
+      console.log(`[ProviderRegistry] Loaded plugin ${specifier}: ${added.map(r => r.name).join(', ') || 'no providers'}`);
+    }
+  }
+
+  private copy(): ProviderRegistry {
+    const copy = new ProviderRegistry();
+    copy.registrations = [...this.registrations];
+    copy.byName = new Map(this.byName);
+    return copy;
+  }
+
+  private static normalize(name: string): string {
+    return name.toLowerCase().trim();
+  }
+}
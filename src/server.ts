@@ -1,8 +1,16 @@
 import 'dotenv/config';
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import { ExecuteRequest, APIError } from './types';
+import { v4 as uuidv4 } from 'uuid';
+import { ExecuteRequest, APIError, SSEEvent } from './types';
 import { Orchestrator } from './orchestrator';
+import { ProviderFactory } from './providers/ProviderFactory';
+import { SessionStorage } from './storage/sessionStorage';
+import { SessionLock } from './storage/sessionLock';
+import { EventSink, SSEResponseSink } from './utils/eventSink';
+import { Job, JobStore } from './jobs/jobStore';
+import { JobQueue } from './jobs/jobQueue';
+import { createAuthMiddleware, hasPermission } from './middleware/auth';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -16,22 +24,124 @@ const DEFAULT_CODING_ASSISTANT_AUTHENTICATION = process.env.CODING_ASSISTANT_AUT
 // Default GitHub token from environment (optional fallback)
 const DEFAULT_GITHUB_ACCESS_TOKEN = process.env.GITHUB_ACCESS_TOKEN;
 
+// How long an async job's result stays available (ms)
+const JOB_RESULT_TTL_MS = parseInt(process.env.JOB_RESULT_TTL_MS || '600000');
+
+// Worker mode: 'ephemeral' exits after each job, 'persistent' keeps running and queues jobs
+const PERSISTENT_MODE = process.env.WORKER_MODE === 'persistent';
+const WORKER_CONCURRENCY = PERSISTENT_MODE ? parseInt(process.env.WORKER_CONCURRENCY || '1') : 1;
+const JOB_QUEUE_SIZE = PERSISTENT_MODE ? parseInt(process.env.JOB_QUEUE_SIZE || '10') : 0;
+
 // Middleware
 app.use(cors());
-app.use(express.json({ limit: '10mb' }));
+app.use(express.json({
+  limit: '10mb',
+  // Keep the raw body for HMAC signature verification
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 
 // Worker state
-let workerStatus: 'idle' | 'busy' = 'idle';
+// An ephemeral worker stops accepting jobs once it has taken one (it exits afterwards)
+let acceptingJobs = true;
+let exitTimer: NodeJS.Timeout | undefined;
+
+// Jobs run through the queue in both modes (ephemeral = one slot, no waiting)
+const jobQueue = new JobQueue(WORKER_CONCURRENCY, JOB_QUEUE_SIZE);
+
+// Async jobs started with { async: true }
+const jobStore = new JobStore();
+
+/**
+ * Worker is busy when it can't take another job
+ */
+function getWorkerStatus(): 'idle' | 'busy' {
+  return acceptingJobs && jobQueue.hasCapacity() ? 'idle' : 'busy';
+}
+
+/**
+ * Schedule process exit (ephemeral container model)
+ * Replaces any previously scheduled exit
+ */
+function scheduleExit(code: number, delayMs: number): void {
+  if (exitTimer) {
+    clearTimeout(exitTimer);
+  }
+  console.log(`[Worker] Exiting process in ${Math.round(delayMs / 1000)} second(s)...`);
+  exitTimer = setTimeout(() => process.exit(code), delayMs);
+}
+
+/**
+ * Handle the end of a job: ephemeral workers exit, persistent workers keep serving
+ */
+function onJobFinished(code: number, delayMs: number): void {
+  if (!PERSISTENT_MODE) {
+    scheduleExit(code, delayMs);
+  }
+}
+
+/**
+ * Reject a job because the worker can't take it (the load balancer retries elsewhere)
+ */
+function rejectBusy(res: Response): void {
+  const error: APIError = {
+    error: 'busy',
+    message: PERSISTENT_MODE
+      ? 'Worker job queue is full'
+      : 'Worker is currently processing another request',
+    retryAfter: 5
+  };
+  res.status(429).json(error);
+}
+
+/**
+ * Reject a request on a session whose lock another execution holds ('Session is locked')
+ * @returns true if the error was that conflict and the 409 was sent
+ */
+function rejectLocked(res: Response, error: unknown): boolean {
+  if (!(error instanceof Error && error.message.startsWith('Session is locked'))) {
+    return false;
+  }
+
+  const apiError: APIError = {
+    error: 'session_locked',
+    message: error.message
+  };
+  res.status(409).json(apiError);
+  return true;
+}
+
+/**
+ * Queue position event (sent before the job starts - not part of the session history)
+ */
+function queuedEvent(position: number): SSEEvent {
+  return {
+    type: 'queued',
+    position,
+    timestamp: new Date().toISOString()
+  };
+}
 
 // Create orchestrator instance
 const orchestrator = new Orchestrator(TMP_DIR, DB_BASE_URL);
 
-// Initialize orchestrator (MinIO bucket setup)
+// Initialize orchestrator (storage backend setup)
 orchestrator.initialize().catch(err => {
   console.error('[Server] Failed to initialize orchestrator:', err);
   process.exit(1);
 });
 
+/**
+ * Set headers for an SSE response
+ */
+function setSSEHeaders(res: Response): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+}
+
 /**
  * Health check endpoint
  */
@@ -39,32 +149,52 @@ app.get('/health', (req: Request, res: Response) => {
   res.json({
     status: 'ok',
     tmpDir: TMP_DIR,
-    workerStatus,
+    workerMode: PERSISTENT_MODE ? 'persistent' : 'ephemeral',
+    workerStatus: getWorkerStatus(),
+    queue: jobQueue.getStats(),
+    providers: ProviderFactory.describeProviders(),
     timestamp: new Date().toISOString(),
   });
 });
 
+// Every route below requires authentication (health checks stay open)
+app.use(createAuthMiddleware());
+
+// Session IDs become object key segments in storage - reject anything that isn't UUID-like
+app.param('sessionId', (req: Request, res: Response, next, sessionId: string) => {
+  if (!SessionStorage.isValidSessionId(sessionId)) {
+    const error: APIError = {
+      error: 'invalid_request',
+      message: `Invalid session ID: ${sessionId}`
+    };
+    res.status(400).json(error);
+    return;
+  }
+  next();
+});
+
 /**
  * Status endpoint - returns whether worker is idle or busy
  */
 app.get('/status', (req: Request, res: Response) => {
   res.json({
-    status: workerStatus,
+    status: getWorkerStatus(),
+    queue: jobQueue.getStats(),
     timestamp: new Date().toISOString(),
   });
 });
 
 /**
- * List all sessions
- * Returns array of session IDs from MinIO
+ * List the caller's sessions
+ * Returns array of session IDs of the authenticated tenant from storage
  */
 app.get('/sessions', async (req: Request, res: Response) => {
   try {
-    const sessionIds = await orchestrator.listSessions();
+    const sessionIds = await orchestrator.listSessions(req.auth?.tenant);
 
     res.json({
       count: sessionIds.length,
-      sessions: sessionIds.map(id => ({ sessionId: id, storage: 'minio' }))
+      sessions: sessionIds.map(id => ({ sessionId: id, storage: orchestrator.getStorageBackend() }))
     });
   } catch (error) {
     console.error('[Sessions] Error listing sessions:', error);
@@ -75,21 +205,274 @@ app.get('/sessions', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Get session details
+ * Reads session metadata from the latest stored snapshot without running a job
+ */
+app.get('/sessions/:sessionId', async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const metadata = await orchestrator.getSession(sessionId, req.auth?.tenant);
+
+    if (!metadata) {
+      const error: APIError = {
+        error: 'not_found',
+        message: `Session not found: ${sessionId}`
+      };
+      res.status(404).json(error);
+      return;
+    }
+
+    res.json(metadata);
+  } catch (error) {
+    console.error(`[Sessions] Error getting session ${sessionId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get session'
+    });
+  }
+});
+
+/**
+ * Get session stream events
+ * Replays the persisted SSE history from the latest stored snapshot
+ * Responds with an SSE stream if the client accepts text/event-stream, otherwise a JSON array
+ *
+ * Only events after Last-Event-ID (header or ?lastEventId=) are returned. If the session is
+ * still executing on this worker, the SSE stream re-attaches and follows the live events.
+ */
+app.get('/sessions/:sessionId/stream', async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const tenant = req.auth?.tenant;
+  const wantsStream = req.accepts(['json', 'text/event-stream']) === 'text/event-stream';
+  const lastEventId = parseInt(String(req.header('Last-Event-ID') ?? req.query.lastEventId ?? '0')) || 0;
+
+  // Re-attach to an in-progress execution on this worker
+  if (wantsStream && orchestrator.isExecutionActive(sessionId, tenant)) {
+    setSSEHeaders(res);
+
+    const detach = orchestrator.attachToSession(sessionId, new SSEResponseSink(res), lastEventId, tenant);
+    res.on('close', () => detach?.());
+    return;
+  }
+
+  try {
+    const storedEvents = await orchestrator.getSessionStreamEvents(sessionId, tenant);
+
+    if (!storedEvents) {
+      const error: APIError = {
+        error: 'not_found',
+        message: `Session not found: ${sessionId}`
+      };
+      res.status(404).json(error);
+      return;
+    }
+
+    const events = storedEvents.filter(event => event.seq! > lastEventId);
+
+    if (wantsStream) {
+      // Nothing new since the client's last event - 204 tells EventSource to stop reconnecting
+      if (lastEventId > 0 && events.length === 0) {
+        res.status(204).end();
+        return;
+      }
+
+      setSSEHeaders(res);
+
+      const sink = new SSEResponseSink(res);
+      for (const event of events) {
+        sink.send(event);
+      }
+      sink.end();
+      return;
+    }
+
+    res.json(events);
+  } catch (error) {
+    console.error(`[Sessions] Error getting stream for session ${sessionId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to get session stream'
+    });
+  }
+});
+
+/**
+ * List a session's snapshots
+ * Every upload (end of a run) is stored as a numbered snapshot, oldest first
+ */
+app.get('/sessions/:sessionId/snapshots', async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const snapshots = await orchestrator.listSnapshots(sessionId, req.auth?.tenant);
+
+    if (snapshots.length === 0) {
+      const error: APIError = {
+        error: 'not_found',
+        message: `Session not found: ${sessionId}`
+      };
+      res.status(404).json(error);
+      return;
+    }
+
+    res.json({
+      sessionId,
+      count: snapshots.length,
+      snapshots
+    });
+  } catch (error) {
+    console.error(`[Sessions] Error listing snapshots for session ${sessionId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to list session snapshots'
+    });
+  }
+});
+
+/**
+ * Restore a snapshot
+ * Copies the snapshot to a new latest snapshot, so the next resume continues from it
+ * (to run straight from an older snapshot without restoring, use resumeSnapshot in /execute)
+ */
+app.post('/sessions/:sessionId/snapshots/:snapshot/restore', async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const tenant = req.auth?.tenant;
+  const snapshot = Number(req.params.snapshot);
+
+  if (!Number.isInteger(snapshot) || snapshot < 0) {
+    const error: APIError = {
+      error: 'invalid_request',
+      message: `Invalid snapshot: ${req.params.snapshot}`
+    };
+    res.status(400).json(error);
+    return;
+  }
+
+  try {
+    const restored = await orchestrator.restoreSnapshot(sessionId, snapshot, tenant);
+
+    if (!restored) {
+      const error: APIError = {
+        error: 'not_found',
+        message: `Snapshot not found: ${sessionId}@${snapshot}`
+      };
+      res.status(404).json(error);
+      return;
+    }
+
+    res.json({
+      sessionId,
+      restored: true,
+      snapshot: restored
+    });
+  } catch (error) {
+    // A running execution (on any worker) would upload over the restored state
+    if (rejectLocked(res, error)) {
+      return;
+    }
+
+    console.error(`[Sessions] Error restoring snapshot ${snapshot} of session ${sessionId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to restore session snapshot'
+    });
+  }
+});
+
+/**
+ * Fork a session
+ * Copies the session (latest snapshot, or { snapshot } from the body) into a new independent session
+ * that can be resumed with its own follow-up prompts
+ */
+app.post('/sessions/:sessionId/fork', async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const snapshot = req.body?.snapshot;
+
+  if (snapshot !== undefined && (!Number.isInteger(snapshot) || snapshot < 0)) {
+    const error: APIError = {
+      error: 'invalid_request',
+      message: `Invalid snapshot: ${snapshot}`,
+      field: 'snapshot'
+    };
+    res.status(400).json(error);
+    return;
+  }
+
+  try {
+    const metadata = await orchestrator.forkSession(sessionId, req.auth?.tenant, snapshot);
+
+    if (!metadata) {
+      const error: APIError = {
+        error: 'not_found',
+        message: `Session not found: ${sessionId}`
+      };
+      res.status(404).json(error);
+      return;
+    }
+
+    res.status(201).json(metadata);
+  } catch (error) {
+    if (rejectLocked(res, error)) {
+      return;
+    }
+
+    if (error instanceof Error && error.message.startsWith('Snapshot not found')) {
+      const apiError: APIError = {
+        error: 'not_found',
+        message: error.message
+      };
+      res.status(404).json(apiError);
+      return;
+    }
+
+    console.error(`[Sessions] Error forking session ${sessionId}:`, error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to fork session'
+    });
+  }
+});
+
 /**
  * Delete a session
- * Removes session from MinIO storage
+ * Removes every object of the session from storage; 404 if the session doesn't exist
  */
 app.delete('/sessions/:sessionId', async (req: Request, res: Response) => {
   const { sessionId } = req.params;
 
+  if (!hasPermission(req, 'delete_sessions')) {
+    const error: APIError = {
+      error: 'forbidden',
+      message: 'Caller is not allowed to delete sessions'
+    };
+    res.status(403).json(error);
+    return;
+  }
+
   try {
-    await orchestrator.deleteSession(sessionId);
+    const removedObjects = await orchestrator.deleteSession(sessionId, req.auth?.tenant);
+
+    if (removedObjects.length === 0) {
+      const error: APIError = {
+        error: 'not_found',
+        message: `Session not found: ${sessionId}`
+      };
+      res.status(404).json(error);
+      return;
+    }
 
     res.json({
       sessionId,
-      deleted: true
+      deleted: true,
+      removedObjects
     });
   } catch (error) {
+    if (rejectLocked(res, error)) {
+      return;
+    }
+
     console.error(`[Sessions] Error deleting session ${sessionId}:`, error);
     res.status(500).json({
       error: 'internal_error',
@@ -98,6 +481,59 @@ app.delete('/sessions/:sessionId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Run session garbage collection
+ * Removes sessions idle longer than the TTL and the oldest sessions of tenants over their quota,
+ * across all tenants; { dryRun: true } only reports what would be removed
+ * Policy defaults come from SESSION_IDLE_TTL_DAYS / SESSION_TENANT_QUOTA_MB and can be overridden per run
+ */
+app.post('/admin/gc', async (req: Request, res: Response) => {
+  if (!hasPermission(req, 'run_gc')) {
+    const error: APIError = {
+      error: 'forbidden',
+      message: 'Caller is not allowed to run garbage collection'
+    };
+    res.status(403).json(error);
+    return;
+  }
+
+  const { dryRun, idleDays, maxTenantMB } = req.body || {};
+  const invalidField = dryRun !== undefined && typeof dryRun !== 'boolean' ? 'dryRun'
+    : idleDays !== undefined && !(typeof idleDays === 'number' && idleDays >= 0) ? 'idleDays'
+    : maxTenantMB !== undefined && !(typeof maxTenantMB === 'number' && maxTenantMB >= 0) ? 'maxTenantMB'
+    : undefined;
+
+  if (invalidField) {
+    const error: APIError = {
+      error: 'invalid_request',
+      message: `Invalid ${invalidField}: expected ${invalidField === 'dryRun' ? 'a boolean' : 'a non-negative number'}`,
+      field: invalidField
+    };
+    res.status(400).json(error);
+    return;
+  }
+
+  if (orchestrator.isGarbageCollectionRunning()) {
+    const error: APIError = {
+      error: 'conflict',
+      message: 'Garbage collection is already running'
+    };
+    res.status(409).json(error);
+    return;
+  }
+
+  try {
+    const report = await orchestrator.collectGarbage({ dryRun, idleDays, maxTenantMB });
+    res.json(report);
+  } catch (error) {
+    console.error('[Admin] Error running garbage collection:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to run garbage collection'
+    });
+  }
+});
+
 /**
  * Unified execute endpoint
  * Handles all coding assistant operations via JSON payload
@@ -107,16 +543,14 @@ app.delete('/sessions/:sessionId', async (req: Request, res: Response) => {
  * 2. GitHub: Include github object to clone/pull repo
  * 3. Resume: Include resumeSessionId to continue session
  * 4. Full: GitHub + database persistence
+ *
+ * With { async: true } the job runs in the background and the response is 202 with a job ID;
+ * progress is polled via GET /jobs/:jobId
  */
 app.post('/execute', async (req: Request, res: Response) => {
   // Check if worker is busy
-  if (workerStatus === 'busy') {
-    const error: APIError = {
-      error: 'busy',
-      message: 'Worker is currently processing another request',
-      retryAfter: 5
-    };
-    res.status(429).json(error);
+  if (getWorkerStatus() === 'busy') {
+    rejectBusy(res);
     return;
   }
 
@@ -134,6 +568,16 @@ app.post('/execute', async (req: Request, res: Response) => {
     return;
   }
 
+  if (request.resumeSessionId && !SessionStorage.isValidSessionId(request.resumeSessionId)) {
+    const error: APIError = {
+      error: 'invalid_request',
+      message: `Invalid resumeSessionId: ${request.resumeSessionId}`,
+      field: 'resumeSessionId'
+    };
+    res.status(400).json(error);
+    return;
+  }
+
   // Use environment variables as fallback for provider and authentication
   if (!request.codingAssistantProvider || request.codingAssistantProvider === 'FROM_ENV') {
     if (DEFAULT_CODING_ASSISTANT_PROVIDER) {
@@ -151,6 +595,16 @@ app.post('/execute', async (req: Request, res: Response) => {
   }
 
   if (!request.codingAssistantAuthentication || request.codingAssistantAuthentication === 'FROM_ENV') {
+    if (DEFAULT_CODING_ASSISTANT_AUTHENTICATION && !hasPermission(req, 'use_env_credentials')) {
+      const error: APIError = {
+        error: 'forbidden',
+        message: 'Caller is not allowed to use environment credentials - provide codingAssistantAuthentication',
+        field: 'codingAssistantAuthentication'
+      };
+      res.status(403).json(error);
+      return;
+    }
+
     if (DEFAULT_CODING_ASSISTANT_AUTHENTICATION) {
       request.codingAssistantAuthentication = DEFAULT_CODING_ASSISTANT_AUTHENTICATION;
       console.log('[Server] Using CODING_ASSISTANT_AUTHENTICATION from environment');
@@ -167,42 +621,257 @@ app.post('/execute', async (req: Request, res: Response) => {
 
   // Use environment variable as fallback for GitHub access token
   if (request.github && (!request.github.accessToken || request.github.accessToken === 'FROM_ENV')) {
+    if (DEFAULT_GITHUB_ACCESS_TOKEN && !hasPermission(req, 'use_env_credentials')) {
+      const error: APIError = {
+        error: 'forbidden',
+        message: 'Caller is not allowed to use environment credentials - provide github.accessToken',
+        field: 'github.accessToken'
+      };
+      res.status(403).json(error);
+      return;
+    }
+
     if (DEFAULT_GITHUB_ACCESS_TOKEN) {
       request.github.accessToken = DEFAULT_GITHUB_ACCESS_TOKEN;
       console.log('[Server] Using GITHUB_ACCESS_TOKEN from environment');
     }
   }
 
-  // Set worker to busy
-  workerStatus = 'busy';
-  console.log(`[Worker] Status: busy - Starting execution`);
+  const tenant = req.auth?.tenant;
+
+  // A resumed session is locked before the job is accepted, so a run conflicting with one
+  // on any worker gets a 409 (new sessions get a fresh ID and are locked by the orchestrator)
+  let lock: SessionLock | null | undefined;
+  if (request.resumeSessionId) {
+    try {
+      lock = await orchestrator.lockSession(request.resumeSessionId, tenant);
+    } catch (error) {
+      if (rejectLocked(res, error)) {
+        return;
+      }
+
+      console.error(`[Worker] Error locking session ${request.resumeSessionId}:`, error);
+      res.status(500).json({
+        error: 'internal_error',
+        message: 'Failed to lock session'
+      });
+      return;
+    }
+
+    // Another request may have taken the worker meanwhile
+    if (getWorkerStatus() === 'busy') {
+      await lock?.release();
+      rejectBusy(res);
+      return;
+    }
+  }
+
+  // Ephemeral workers take a single job
+  if (!PERSISTENT_MODE) {
+    acceptingJobs = false;
+  }
+
+  const jobId = uuidv4();
+  console.log(`[Worker] Accepted job ${jobId} (${jobQueue.getStats().running} running, ${jobQueue.getStats().queued} queued)`);
   console.log(`[Worker] Provider: ${request.codingAssistantProvider}`);
   console.log(`[Worker] Request: ${request.userRequest.substring(0, 100)}...`);
 
+  if (request.async) {
+    const job = jobStore.create(jobId, tenant, request.resumeSessionId);
+    console.log(`[Worker] Async job: ${job.jobId}`);
+
+    // A job cancelled while still waiting in the queue is just dropped (a running one is stopped by the orchestrator)
+    job.abortController.signal.addEventListener('abort', () => {
+      if (jobQueue.remove(job.jobId)) {
+        console.log(`[Worker] Removed cancelled queued job ${job.jobId}`);
+        lock?.release();
+        job.sink.send({
+          type: 'cancelled',
+          sessionId: request.resumeSessionId,
+          duration_ms: 0,
+          timestamp: new Date().toISOString()
+        });
+        jobStore.finish(job.jobId, 'cancelled');
+        onJobFinished(0, JOB_RESULT_TTL_MS);
+
+        if (PERSISTENT_MODE) {
+          jobStore.expire(job.jobId, JOB_RESULT_TTL_MS);
+        }
+      }
+    });
+
+    res.status(202).json({
+      jobId: job.jobId,
+      status: job.status,
+      statusUrl: `/jobs/${job.jobId}`
+    });
+
+    jobQueue.enqueue({
+      id: job.jobId,
+      onPositionChange: (position) => job.sink.send(queuedEvent(position)),
+      run: async () => {
+        jobStore.start(job.jobId);
+
+        try {
+          await orchestrator.execute(request, job.sink, { abortController: job.abortController, tenant, lock });
+          jobStore.finish(job.jobId, job.abortController.signal.aborted ? 'cancelled' : 'completed');
+          console.log(`[Worker] Async job ${job.jobId} finished: ${job.status}`);
+
+          // Keep the result available for polling before exiting
+          onJobFinished(0, JOB_RESULT_TTL_MS);
+        } catch (error) {
+          jobStore.finish(job.jobId, 'error');
+          console.error(`[Worker] Async job ${job.jobId} failed:`, error);
+          onJobFinished(1, JOB_RESULT_TTL_MS);
+        }
+
+        if (PERSISTENT_MODE) {
+          jobStore.expire(job.jobId, JOB_RESULT_TTL_MS);
+        }
+      }
+    });
+    return;
+  }
+
   // Set up SSE headers
-  res.setHeader('Content-Type', 'text/event-stream');
-  res.setHeader('Cache-Control', 'no-cache');
-  res.setHeader('Connection', 'keep-alive');
-  res.setHeader('X-Accel-Buffering', 'no');
+  setSSEHeaders(res);
+  const sink: EventSink = new SSEResponseSink(res);
 
-  try {
-    // Execute the orchestrated workflow
-    await orchestrator.execute(request, res);
+  // Cancel the execution if the SSE client disconnects before the stream ends
+  // (a job that is still waiting in the queue is just dropped)
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      if (jobQueue.remove(jobId)) {
+        console.log(`[Worker] Client disconnected - removed queued job ${jobId}`);
+        lock?.release();
+      } else {
+        console.log('[Worker] Client disconnected - cancelling execution');
+        abortController.abort();
+      }
+    }
+  });
 
-    console.log('[Worker] Execution completed successfully');
+  jobQueue.enqueue({
+    id: jobId,
+    onPositionChange: (position) => sink.send(queuedEvent(position)),
+    run: async () => {
+      try {
+        // Execute the orchestrated workflow
+        await orchestrator.execute(request, sink, { abortController, tenant, lock });
 
-    // Exit process after successful completion (ephemeral container model)
-    console.log('[Worker] Exiting process in 1 second...');
-    setTimeout(() => process.exit(0), 1000);
-  } catch (error) {
-    console.error('[Worker] Execution failed:', error);
+        console.log('[Worker] Execution completed successfully');
+
+        // Exit process after successful completion (ephemeral container model)
+        onJobFinished(0, 1000);
+      } catch (error) {
+        console.error('[Worker] Execution failed:', error);
+
+        // Exit process after error (ephemeral container model)
+        onJobFinished(1, 1000);
+      }
+    }
+  });
+});
+
+/**
+ * Poll an async job
+ * Returns job status and the buffered events starting at ?offset=N
+ */
+app.get('/jobs/:jobId', (req: Request, res: Response) => {
+  const { jobId } = req.params;
+  const job = jobStore.get(jobId);
+
+  // Jobs of other tenants are reported as missing
+  if (!job || job.tenant !== req.auth?.tenant) {
+    const error: APIError = {
+      error: 'not_found',
+      message: `Job not found: ${jobId}`
+    };
+    res.status(404).json(error);
+    return;
+  }
+
+  const offset = Math.max(0, parseInt(String(req.query.offset ?? '0')) || 0);
+  const events = job.sink.getEvents(offset);
+  const nextOffset = offset + events.length;
+
+  res.json({
+    jobId,
+    sessionId: jobStore.getSessionId(jobId),
+    status: job.status,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+    offset,
+    nextOffset,
+    events
+  });
 
-    // Exit process after error (ephemeral container model)
-    console.log('[Worker] Exiting process in 1 second...');
-    setTimeout(() => process.exit(1), 1000);
+  // Result fully retrieved - no need to keep an ephemeral worker around any longer
+  if (job.finishedAt && nextOffset >= job.sink.getEventCount()) {
+    onJobFinished(job.status === 'error' ? 1 : 0, 1000);
   }
 });
 
+/**
+ * Cancel async jobs still waiting in the queue (see the abort listener in POST /execute)
+ * @returns The cancelled jobs
+ */
+function cancelQueuedJobs(tenant?: string, sessionId?: string): Job[] {
+  const jobs = jobStore.getQueued(tenant, sessionId);
+  for (const job of jobs) {
+    job.abortController.abort();
+  }
+  return jobs;
+}
+
+/**
+ * Cancel the caller's running executions (and queued async jobs) on this worker
+ * The session is still uploaded and the stream ends with a 'cancelled' event
+ */
+app.delete('/execute', (req: Request, res: Response) => {
+  const cancelled = orchestrator.cancelExecution(undefined, req.auth?.tenant);
+  const cancelledQueued = cancelQueuedJobs(req.auth?.tenant);
+
+  if (cancelled.length === 0 && cancelledQueued.length === 0) {
+    const error: APIError = {
+      error: 'not_found',
+      message: 'No execution in progress on this worker'
+    };
+    res.status(404).json(error);
+    return;
+  }
+
+  res.status(202).json({
+    cancelled: true,
+    sessionIds: [...cancelled, ...cancelledQueued.flatMap(job => job.sessionId ? [job.sessionId] : [])],
+    jobIds: cancelledQueued.map(job => job.jobId)
+  });
+});
+
+/**
+ * Cancel the running (or queued) execution for a session
+ */
+app.post('/sessions/:sessionId/cancel', (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const cancelled = orchestrator.cancelExecution(sessionId, req.auth?.tenant);
+  const cancelledQueued = cancelQueuedJobs(req.auth?.tenant, sessionId);
+
+  if (cancelled.length === 0 && cancelledQueued.length === 0) {
+    const error: APIError = {
+      error: 'not_found',
+      message: `No execution in progress for session: ${sessionId}`
+    };
+    res.status(404).json(error);
+    return;
+  }
+
+  res.status(202).json({
+    sessionId,
+    cancelled: true
+  });
+});
+
 /**
  * Catch-all for undefined routes
  */
@@ -216,7 +885,15 @@ app.use((req: Request, res: Response) => {
       'GET  /sessions',
       'GET  /sessions/:sessionId',
       'GET  /sessions/:sessionId/stream',
-      'POST /execute'
+      'GET  /sessions/:sessionId/snapshots',
+      'POST /sessions/:sessionId/snapshots/:snapshot/restore',
+      'POST /sessions/:sessionId/fork',
+      'DELETE /sessions/:sessionId',
+      'POST /sessions/:sessionId/cancel',
+      'POST /execute',
+      'DELETE /execute',
+      'GET  /jobs/:jobId',
+      'POST /admin/gc'
     ]
   });
 });
@@ -226,29 +903,46 @@ app.use((req: Request, res: Response) => {
  */
 app.listen(PORT, () => {
   console.log('='.repeat(60));
-  console.log('🚀 Unified Coding Assistant Worker (MinIO Storage)');
+  console.log('🚀 Unified Coding Assistant Worker');
   console.log('='.repeat(60));
   console.log(`📡 Server running on port ${PORT}`);
   console.log(`📁 Temp directory: ${TMP_DIR}`);
-  console.log(`🗄️  Storage: MinIO (${process.env.MINIO_ENDPOINT || 'Not configured'})`);
+  console.log(`🗄️  Storage: ${orchestrator.describeStorage()}`);
   console.log(`💾 Database URL: ${DB_BASE_URL || 'Not configured'}`);
-  console.log(`📊 Status: ${workerStatus}`);
+  console.log(`🔐 Auth: ${process.env.AUTH_MODE || 'none'}`);
+  console.log(`📊 Status: ${getWorkerStatus()}`);
+  console.log(`⚙️  Mode: ${PERSISTENT_MODE ? `persistent (concurrency ${WORKER_CONCURRENCY}, queue ${JOB_QUEUE_SIZE})` : 'ephemeral'}`);
   console.log('');
   console.log('Available endpoints:');
   console.log('  GET    /health                    - Health check');
   console.log('  GET    /status                    - Worker status (idle/busy)');
-  console.log('  GET    /sessions                  - List all sessions (from MinIO)');
+  console.log('  GET    /sessions                  - List all sessions (from storage)');
+  console.log('  GET    /sessions/:id              - Get session metadata');
+  console.log('  GET    /sessions/:id/stream       - Replay/re-attach to session stream (Last-Event-ID)');
+  console.log('  GET    /sessions/:id/snapshots    - List session snapshots');
+  console.log('  POST   /sessions/:id/snapshots/:n/restore - Make snapshot n the latest');
+  console.log('  POST   /sessions/:id/fork         - Fork a session into a new one');
   console.log('  DELETE /sessions/:id              - Delete a session');
+  console.log('  POST   /sessions/:id/cancel       - Cancel a running session');
   console.log('  POST   /execute                   - Execute coding assistant request');
+  console.log('  DELETE /execute                   - Cancel the running execution');
+  console.log('  GET    /jobs/:id                  - Poll an async job (?offset=N)');
+  console.log('  POST   /admin/gc                  - Remove expired sessions (dryRun supported)');
   console.log('');
   console.log('Supported providers:');
-  console.log('  - claude-code');
-  console.log('  - codex / cursor');
+  for (const { name, aliases } of ProviderFactory.describeProviders()) {
+    console.log(`  - ${[name, ...aliases].join(' / ')}`);
+  }
   console.log('');
   console.log('Worker behavior:');
-  console.log('  - Ephemeral: exits after completing each job');
-  console.log('  - Returns 429 if busy (load balancer will retry)');
-  console.log('  - Sessions stored in MinIO for complete isolation');
+  if (PERSISTENT_MODE) {
+    console.log('  - Persistent: keeps running, queues jobs beyond the concurrency limit');
+    console.log('  - Returns 429 if the queue is full (load balancer will retry)');
+  } else {
+    console.log('  - Ephemeral: exits after completing each job');
+    console.log('  - Returns 429 if busy (load balancer will retry)');
+  }
+  console.log('  - Sessions stored in the storage backend for complete isolation');
   console.log('  - Downloads session at start, uploads at end');
   console.log('='.repeat(60));
 });
@@ -0,0 +1,356 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+
+// Start of every encrypted object - plaintext objects (gzip, JSON) never start with it
+const MAGIC = Buffer.from('SESSENC1', 'ascii');
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/**
+ * A master key (key encryption key)
+ */
+interface EncryptionKey {
+  id: string;      // Stored with every object, so the key can be rotated
+  key: Buffer;
+  tenant?: string; // Only used for this tenant's sessions (absent = default key)
+}
+
+/**
+ * Entry of the encryption keys file (SESSION_ENCRYPTION_KEYS_FILE)
+ */
+interface EncryptionKeyConfig {
+  id: string;
+  key: string; // Base64, 32 bytes
+  tenant?: string;
+}
+
+/**
+ * Header of an encrypted object (JSON, following MAGIC and its uint32 length)
+ */
+interface EnvelopeHeader {
+  v: 1;
+  keyId: string;
+  wrappedKey: string; // Data key encrypted with the master key: base64(iv | tag | ciphertext)
+  iv: string;         // Base64 IV of the content
+}
+
+/**
+ * AES-256-GCM envelope encryption of session objects
+ * Every object gets its own random data key, stored in the object header encrypted with a master key
+ * Layout: MAGIC | header length (uint32 BE) | header JSON | ciphertext | GCM tag (the header is authenticated too)
+ * The first key listed for a tenant (or the first default key) encrypts; all keys can decrypt,
+ * so a key is rotated by listing the new key first and keeping the old one until its objects are gone
+ */
+export class SessionEncryption {
+  private keys: EncryptionKey[];
+  private required: boolean; // Reject plaintext objects instead of passing them through
+  private blobNameKeys = new Map<string, Buffer>(); // Per master key ID, derived on first use
+
+  constructor(keys: EncryptionKey[], required = false) {
+    if (required && keys.length === 0) {
+      throw new Error('SESSION_ENCRYPTION_REQUIRED is set but no encryption key is configured');
+    }
+    this.keys = keys;
+    this.required = required;
+  }
+
+  /**
+   * Load the keys from SESSION_ENCRYPTION_KEYS_FILE, SESSION_ENCRYPTION_KEY and SESSION_ENCRYPTION_PREVIOUS_KEYS
+   * Without any key, objects are stored unencrypted
+   * With SESSION_ENCRYPTION_REQUIRED=true, objects stored without encryption can't be read
+   */
+  static fromEnv(): SessionEncryption {
+    const keys: EncryptionKey[] = [];
+
+    if (process.env.SESSION_ENCRYPTION_KEYS_FILE) {
+      const file = JSON.parse(fs.readFileSync(process.env.SESSION_ENCRYPTION_KEYS_FILE, 'utf-8'));
+      for (const config of (file.keys || []) as EncryptionKeyConfig[]) {
+        keys.push({ id: config.id, key: SessionEncryption.decodeKey(config.key, config.id), tenant: config.tenant });
+      }
+    }
+
+    // Env keys are identified by their fingerprint
+    const envKeys = [
+      process.env.SESSION_ENCRYPTION_KEY,
+      ...(process.env.SESSION_ENCRYPTION_PREVIOUS_KEYS || '').split(',')
+    ].map(value => value?.trim()).filter((value): value is string => !!value);
+    for (const value of envKeys) {
+      const key = SessionEncryption.decodeKey(value, 'SESSION_ENCRYPTION_KEY');
+      keys.push({ id: crypto.createHash('sha256').update(key).digest('hex').substring(0, 16), key });
+    }
+
+    const ids = new Set<string>();
+    for (const { id } of keys) {
+      if (!/^[A-Za-z0-9._-]{1,64}$/.test(id || '')) {
+        throw new Error(`Invalid encryption key ID: ${id}`);
+      }
+      if (ids.has(id)) {
+        throw new Error(`Duplicate encryption key ID: ${id}`);
+      }
+      ids.add(id);
+    }
+
+    return new SessionEncryption(keys, process.env.SESSION_ENCRYPTION_REQUIRED === 'true');
+  }
+
+  private static decodeKey(value: string, name: string): Buffer {
+    const key = Buffer.from(value, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Encryption key ${name} must be ${KEY_BYTES} bytes (base64)`);
+    }
+    return key;
+  }
+
+  get enabled(): boolean {
+    return this.keys.length > 0;
+  }
+
+  /**
+   * ID of the key new objects of a tenant are encrypted with (undefined if encryption is disabled)
+   * Throws if encryption is enabled but no key applies to the tenant
+   */
+  currentKeyId(tenant?: string): string | undefined {
+    return this.enabled ? this.currentKey(tenant).id : undefined;
+  }
+
+  /**
+   * Name of a content-addressed blob encrypted with the given key: an HMAC of the content hash,
+   * keyed by a key derived from the master key - a plain hash would tell anyone who can list the
+   * bucket which known files a session holds
+   */
+  blobName(hash: string, keyId: string): string {
+    let nameKey = this.blobNameKeys.get(keyId);
+    if (!nameKey) {
+      const masterKey = this.keys.find(candidate => candidate.id === keyId);
+      if (!masterKey) {
+        throw new Error(`Session object is encrypted with unknown key: ${keyId}`);
+      }
+      nameKey = Buffer.from(crypto.hkdfSync('sha256', masterKey.key, Buffer.alloc(0), 'session-blob-names', KEY_BYTES));
+      this.blobNameKeys.set(keyId, nameKey);
+    }
+    return crypto.createHmac('sha256', nameKey).update(hash).digest('hex');
+  }
+
+  /**
+   * Encrypt a whole object in memory
+   */
+  encryptBuffer(content: Buffer, tenant?: string): Buffer {
+    const { prefix, cipher } = this.createCipher(tenant);
+    return Buffer.concat([prefix, cipher.update(content), cipher.final(), cipher.getAuthTag()]);
+  }
+
+  /**
+   * Stream that encrypts the data flowing through it
+   */
+  encryptor(tenant?: string): Transform {
+    const { prefix, cipher } = this.createCipher(tenant);
+    let started = false;
+    const start = (stream: Transform) => {
+      if (!started) {
+        stream.push(prefix);
+        started = true;
+      }
+    };
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        start(this);
+        callback(null, cipher.update(chunk));
+      },
+      flush(callback) {
+        start(this);
+        this.push(cipher.final());
+        callback(null, cipher.getAuthTag());
+      }
+    });
+  }
+
+  /**
+   * Stream that decrypts an object read from storage
+   * Unencrypted objects (written before encryption was enabled) pass through unchanged, unless encryption is required
+   * Fails if the object was tampered with or its key isn't configured for the tenant
+   * Decrypted data is passed on before the GCM tag at the end is verified - consumers that can't
+   * undo what they did with it must wait for the stream to finish without error
+   */
+  decryptor(tenant?: string): Transform {
+    return new DecryptStream((keyId) => {
+      const key = this.keysFor(tenant).find(candidate => candidate.id === keyId);
+      if (!key) {
+        throw new Error(`Session object is encrypted with unknown key: ${keyId}`);
+      }
+      return key;
+    }, this.required);
+  }
+
+  /**
+   * Keys usable for a tenant's objects, the encryption key first
+   * Tenants without keys of their own use the default keys
+   */
+  private keysFor(tenant?: string): EncryptionKey[] {
+    const tenantKeys = tenant ? this.keys.filter(key => key.tenant === tenant) : [];
+    const defaultKeys = this.keys.filter(key => !key.tenant);
+    return [...tenantKeys, ...defaultKeys];
+  }
+
+  private currentKey(tenant?: string): EncryptionKey {
+    const key = this.keysFor(tenant)[0];
+    if (!key) {
+      throw new Error(`No encryption key configured for tenant ${tenant}`);
+    }
+    return key;
+  }
+
+  /**
+   * Create a data key, wrap it with the tenant's current key and start the content cipher
+   */
+  private createCipher(tenant?: string): { prefix: Buffer; cipher: crypto.CipherGCM } {
+    const masterKey = this.currentKey(tenant);
+    const dataKey = crypto.randomBytes(KEY_BYTES);
+
+    const wrapIv = crypto.randomBytes(IV_BYTES);
+    const wrap = crypto.createCipheriv('aes-256-gcm', masterKey.key, wrapIv);
+    wrap.setAAD(Buffer.from(masterKey.id, 'utf-8'));
+    const wrappedKey = Buffer.concat([wrap.update(dataKey), wrap.final()]);
+
+    const iv = crypto.randomBytes(IV_BYTES);
+    const header: EnvelopeHeader = {
+      v: 1,
+      keyId: masterKey.id,
+      wrappedKey: Buffer.concat([wrapIv, wrap.getAuthTag(), wrappedKey]).toString('base64'),
+      iv: iv.toString('base64')
+    };
+    const headerBytes = Buffer.from(JSON.stringify(header), 'utf-8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(headerBytes.length);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+    cipher.setAAD(headerBytes);
+
+    return { prefix: Buffer.concat([MAGIC, length, headerBytes]), cipher };
+  }
+}
+
+/**
+ * Decrypts an envelope-encrypted object, or passes a plaintext one through
+ * The last TAG_BYTES are held back until the end of the stream, where they are verified as the GCM tag
+ */
+class DecryptStream extends Transform {
+  private pending = Buffer.alloc(0);
+  private mode: 'detect' | 'plain' | 'encrypted' = 'detect';
+  private decipher?: crypto.DecipherGCM;
+  private findKey: (keyId: string) => EncryptionKey;
+  private required: boolean;
+
+  constructor(findKey: (keyId: string) => EncryptionKey, required: boolean) {
+    super();
+    this.findKey = findKey;
+    this.required = required;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    try {
+      if (this.mode === 'plain') {
+        callback(null, chunk);
+        return;
+      }
+
+      this.pending = Buffer.concat([this.pending, chunk]);
+      if (this.mode === 'detect' && !this.readHeader()) {
+        callback();
+        return;
+      }
+      if (!this.decipher) {
+        // Not encrypted - pass through what was buffered while detecting
+        const content = this.pending;
+        this.pending = Buffer.alloc(0);
+        callback(null, content);
+        return;
+      }
+
+      // Everything but a possible tag can be decrypted now
+      const available = this.pending.length - TAG_BYTES;
+      if (available > 0) {
+        this.push(this.decipher!.update(this.pending.subarray(0, available)));
+        this.pending = this.pending.subarray(available);
+      }
+      callback();
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      if (this.mode !== 'encrypted') {
+        // Shorter than an encryption header - can only be plaintext
+        this.rejectPlaintext();
+        callback(null, this.pending.length > 0 ? this.pending : undefined);
+        return;
+      }
+      if (this.pending.length !== TAG_BYTES) {
+        throw new Error('Encrypted session object is truncated');
+      }
+
+      this.decipher!.setAuthTag(this.pending);
+      let content: Buffer;
+      try {
+        content = this.decipher!.final();
+      } catch {
+        throw new Error('Encrypted session object failed authentication (corrupted or wrong key)');
+      }
+      callback(null, content);
+    } catch (err) {
+      callback(err as Error);
+    }
+  }
+
+  private rejectPlaintext(): void {
+    if (this.required) {
+      throw new Error('Session object is not encrypted (SESSION_ENCRYPTION_REQUIRED is set)');
+    }
+  }
+
+  /**
+   * Parse the header once enough data is buffered
+   * @returns false if more data is needed
+   */
+  private readHeader(): boolean {
+    const magicLength = Math.min(this.pending.length, MAGIC.length);
+    if (!this.pending.subarray(0, magicLength).equals(MAGIC.subarray(0, magicLength))) {
+      this.rejectPlaintext();
+      this.mode = 'plain';
+      return true;
+    }
+    if (this.pending.length < MAGIC.length + 4) {
+      return false;
+    }
+
+    const headerLength = this.pending.readUInt32BE(MAGIC.length);
+    const headerEnd = MAGIC.length + 4 + headerLength;
+    if (this.pending.length < headerEnd) {
+      return false;
+    }
+
+    const headerBytes = this.pending.subarray(MAGIC.length + 4, headerEnd);
+    const header = JSON.parse(headerBytes.toString('utf-8')) as EnvelopeHeader;
+    if (header.v !== 1) {
+      throw new Error(`Unsupported session object encryption version: ${header.v}`);
+    }
+    const masterKey = this.findKey(header.keyId);
+
+    const wrapped = Buffer.from(header.wrappedKey, 'base64');
+    const unwrap = crypto.createDecipheriv('aes-256-gcm', masterKey.key, wrapped.subarray(0, IV_BYTES));
+    unwrap.setAAD(Buffer.from(masterKey.id, 'utf-8'));
+    unwrap.setAuthTag(wrapped.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    const dataKey = Buffer.concat([unwrap.update(wrapped.subarray(IV_BYTES + TAG_BYTES)), unwrap.final()]);
+
+    this.decipher = crypto.createDecipheriv('aes-256-gcm', dataKey, Buffer.from(header.iv, 'base64'));
+    this.decipher.setAAD(headerBytes);
+    this.pending = this.pending.subarray(headerEnd);
+    this.mode = 'encrypted';
+    return true;
+  }
+}
@@ -0,0 +1,272 @@
+import { logger } from '../utils/logger';
+import { CollectedSession, GarbageCollectionReport } from '../types';
+import { SessionStorage } from './sessionStorage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Overrides for a single garbage collection run (defaults come from the environment)
+ */
+export interface GarbageCollectionOptions {
+  dryRun?: boolean;
+  idleDays?: number;
+  maxTenantMB?: number;
+}
+
+/**
+ * A stored session as seen by the garbage collector
+ */
+interface SessionUsage {
+  sessionId: string;
+  tenant?: string;
+  bytes: number;
+  lastActivity: number; // ms since epoch (0 if unknown)
+}
+
+/**
+ * Removes sessions from storage by retention policy:
+ *   SESSION_IDLE_TTL_DAYS   - sessions whose metadata updatedAt is older are removed
+ *   SESSION_TENANT_QUOTA_MB - beyond it, a tenant's least recently used sessions are removed
+ * Runs on demand (POST /admin/gc) and, with SESSION_GC_INTERVAL_MINUTES, periodically in the background
+ * Sessions executing on this worker, or locked by an execution on another one, are never removed
+ */
+export class SessionGarbageCollector {
+  private storage: SessionStorage;
+  private isActive: (sessionId: string, tenant?: string) => boolean;
+  private idleDays: number;
+  private maxTenantMB: number;
+  private intervalMs: number;
+  private backgroundDryRun: boolean;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(storage: SessionStorage, isActive: (sessionId: string, tenant?: string) => boolean) {
+    this.storage = storage;
+    this.isActive = isActive;
+    this.idleDays = parseFloat(process.env.SESSION_IDLE_TTL_DAYS || '0');
+    this.maxTenantMB = parseFloat(process.env.SESSION_TENANT_QUOTA_MB || '0');
+    this.intervalMs = parseFloat(process.env.SESSION_GC_INTERVAL_MINUTES || '0') * 60 * 1000;
+    this.backgroundDryRun = process.env.SESSION_GC_DRY_RUN === 'true';
+  }
+
+  /**
+   * Start the background sweep (if SESSION_GC_INTERVAL_MINUTES is set)
+   */
+  start(): void {
+    if (this.intervalMs <= 0 || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      if (this.running) {
+        return;
+      }
+      this.run({ dryRun: this.backgroundDryRun }).catch(error => {
+        logger.error('Background session garbage collection failed', error, {
+          component: 'SessionGC'
+        });
+      });
+    }, this.intervalMs);
+    // The sweep alone never keeps the worker alive
+    this.timer.unref();
+
+    logger.info('Session garbage collection scheduled', {
+      component: 'SessionGC',
+      intervalMinutes: this.intervalMs / 60000,
+      idleDays: this.idleDays,
+      maxTenantMB: this.maxTenantMB,
+      dryRun: this.backgroundDryRun
+    });
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Whether a run is in progress (runs don't overlap)
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Remove idle sessions, then the least recently used sessions of tenants over their quota
+   * With dryRun, nothing is removed - the report lists what would be
+   */
+  async run(options: GarbageCollectionOptions = {}): Promise<GarbageCollectionReport> {
+    if (this.running) {
+      throw new Error('Session garbage collection is already running');
+    }
+    this.running = true;
+
+    try {
+      return await this.collect(options);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async collect(options: GarbageCollectionOptions): Promise<GarbageCollectionReport> {
+    const startedAt = new Date();
+    const dryRun = options.dryRun === true;
+    const idleDays = options.idleDays ?? this.idleDays;
+    const maxTenantMB = options.maxTenantMB ?? this.maxTenantMB;
+
+    const report: GarbageCollectionReport = {
+      dryRun,
+      startedAt: startedAt.toISOString(),
+      durationMs: 0,
+      idleDays,
+      maxTenantMB,
+      scannedSessions: 0,
+      scannedBytes: 0,
+      removed: [],
+      removedBytes: 0,
+      skippedActive: 0,
+      failed: []
+    };
+
+    // Sessions without a tenant form their own group, with its own quota
+    const tenants: (string | undefined)[] = [undefined, ...(await this.storage.listTenants())];
+
+    for (const tenant of tenants) {
+      const sessions = await this.scanTenant(tenant, report);
+      const due: { session: SessionUsage; reason: CollectedSession['reason'] }[] = [];
+
+      if (idleDays > 0) {
+        const cutoff = startedAt.getTime() - idleDays * DAY_MS;
+        for (const session of sessions.filter(s => s.lastActivity < cutoff)) {
+          due.push({ session, reason: 'idle' });
+        }
+      }
+
+      if (maxTenantMB > 0) {
+        // Least recently used first, until the rest fits the quota
+        const remaining = sessions
+          .filter(session => !due.some(d => d.session === session))
+          .sort((a, b) => a.lastActivity - b.lastActivity);
+        let total = remaining.reduce((sum, session) => sum + session.bytes, 0);
+        for (const session of remaining) {
+          if (total <= maxTenantMB * 1024 * 1024) {
+            break;
+          }
+          if (await this.isBusy(session)) {
+            continue;
+          }
+          due.push({ session, reason: 'quota' });
+          total -= session.bytes;
+        }
+      }
+
+      for (const { session, reason } of due) {
+        await this.remove(session, reason, dryRun, report);
+      }
+    }
+
+    report.durationMs = Date.now() - startedAt.getTime();
+
+    logger.info('Session garbage collection finished', {
+      component: 'SessionGC',
+      dryRun,
+      idleDays,
+      maxTenantMB,
+      scannedSessions: report.scannedSessions,
+      removedSessions: report.removed.length,
+      removedBytes: report.removedBytes,
+      skippedActive: report.skippedActive,
+      failed: report.failed.length,
+      durationMs: report.durationMs
+    });
+
+    return report;
+  }
+
+  /**
+   * Size and last activity of every session of a tenant
+   */
+  private async scanTenant(tenant: string | undefined, report: GarbageCollectionReport): Promise<SessionUsage[]> {
+    const sessions: SessionUsage[] = [];
+
+    for (const sessionId of await this.storage.listSessions(tenant)) {
+      try {
+        const usage = await this.storage.getSessionUsage(sessionId, tenant);
+        const metadata = await this.storage.getStoredMetadata(sessionId, tenant);
+        const updatedAt = Date.parse(metadata?.updatedAt || '');
+        const lastActivity = Number.isNaN(updatedAt) ? usage.lastModified?.getTime() ?? 0 : updatedAt;
+
+        sessions.push({ sessionId, tenant, bytes: usage.bytes, lastActivity });
+        report.scannedSessions++;
+        report.scannedBytes += usage.bytes;
+      } catch (error) {
+        // Never remove a session that couldn't be inspected
+        report.failed.push({ sessionId, tenant, error: error instanceof Error ? error.message : String(error) });
+        logger.error('Failed to inspect session for garbage collection', error, {
+          component: 'SessionGC',
+          sessionId,
+          tenant
+        });
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Whether an execution works on the session (on this worker, or holding its lock)
+   */
+  private async isBusy(session: SessionUsage): Promise<boolean> {
+    return this.isActive(session.sessionId, session.tenant) ||
+      await this.storage.isSessionLocked(session.sessionId, session.tenant);
+  }
+
+  private async remove(
+    session: SessionUsage,
+    reason: CollectedSession['reason'],
+    dryRun: boolean,
+    report: GarbageCollectionReport
+  ): Promise<void> {
+    const { sessionId, tenant } = session;
+
+    if (await this.isBusy(session)) {
+      report.skippedActive++;
+      return;
+    }
+
+    const collected: CollectedSession = {
+      sessionId,
+      tenant,
+      reason,
+      bytes: session.bytes,
+      updatedAt: session.lastActivity > 0 ? new Date(session.lastActivity).toISOString() : undefined
+    };
+
+    try {
+      if (!dryRun) {
+        await this.storage.deleteSession(sessionId, tenant);
+      }
+      report.removed.push(collected);
+      report.removedBytes += session.bytes;
+
+      logger.info(dryRun ? 'Session due for garbage collection' : 'Session removed by garbage collection', {
+        component: 'SessionGC',
+        dryRun,
+        ...collected
+      });
+    } catch (error) {
+      // An execution locked it since the check - deleteSession left it alone
+      if (error instanceof Error && error.message.startsWith('Session is locked')) {
+        report.skippedActive++;
+        return;
+      }
+
+      report.failed.push({ sessionId, tenant, error: error instanceof Error ? error.message : String(error) });
+      logger.error('Failed to remove session', error, {
+        component: 'SessionGC',
+        sessionId,
+        tenant
+      });
+    }
+  }
+}
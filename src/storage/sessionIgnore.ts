@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Ignore file honoured in every directory of the workspace (gitignore syntax)
+export const SESSION_IGNORE_FILE = '.sessionignore';
+
+/**
+ * A compiled ignore pattern
+ */
+interface IgnoreRule {
+  base: string; // Directory the pattern is relative to ('' = workspace root)
+  regex: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Gitignore-style exclude rules for the session workspace
+ * Rules come from .sessionignore files (relative to the directory containing them) and from the
+ * request's storage.exclude list (relative to the workspace root, applied after all files)
+ * As in git, the last matching rule wins and nothing below an excluded directory can be re-included
+ */
+export class SessionIgnore {
+  private fileRules: IgnoreRule[] = [];
+  private extraRules: IgnoreRule[];
+
+  constructor(extraPatterns: string[] = []) {
+    this.extraRules = SessionIgnore.compile(extraPatterns, '');
+  }
+
+  /**
+   * Create the rules for a workspace, reading its top-level .sessionignore
+   * .sessionignore files in subdirectories are added by loadDirectory while walking
+   */
+  static forWorkspace(workspaceDir: string, extraPatterns: string[] = []): SessionIgnore {
+    const ignore = new SessionIgnore(extraPatterns);
+    ignore.loadDirectory(workspaceDir, '');
+    return ignore;
+  }
+
+  /**
+   * Add the rules of a directory's .sessionignore (if any)
+   * @param relativeDir Directory path relative to the workspace root (posix)
+   */
+  loadDirectory(dir: string, relativeDir: string): void {
+    const ignoreFile = path.join(dir, SESSION_IGNORE_FILE);
+
+    if (fs.existsSync(ignoreFile) && fs.statSync(ignoreFile).isFile()) {
+      const lines = fs.readFileSync(ignoreFile, 'utf-8').split(/\r?\n/);
+      this.fileRules.push(...SessionIgnore.compile(lines, relativeDir));
+    }
+  }
+
+  /**
+   * Whether a workspace path is excluded
+   * @param relativePath Path relative to the workspace root (posix)
+   */
+  ignores(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of [...this.fileRules, ...this.extraRules]) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.base && !relativePath.startsWith(`${rule.base}/`)) {
+        continue;
+      }
+      if (rule.regex.test(rule.base ? relativePath.substring(rule.base.length + 1) : relativePath)) {
+        ignored = !rule.negate;
+      }
+    }
+
+    return ignored;
+  }
+
+  private static compile(patterns: string[], base: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+
+    for (const line of patterns) {
+      // Trailing whitespace is insignificant unless escaped
+      let pattern = line.replace(/(?<!\\)\s+$/, '');
+      if (!pattern || pattern.startsWith('#')) {
+        continue;
+      }
+
+      const negate = pattern.startsWith('!');
+      if (negate) {
+        pattern = pattern.substring(1);
+      } else if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) {
+        pattern = pattern.substring(1);
+      }
+
+      const directoryOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+
+      // A slash anywhere but the end anchors the pattern to its base; otherwise it matches at any depth
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\//, '');
+      if (!pattern) {
+        continue;
+      }
+
+      rules.push({
+        base,
+        regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${SessionIgnore.globToRegExp(pattern)}$`),
+        negate,
+        directoryOnly
+      });
+    }
+
+    return rules;
+  }
+
+  private static globToRegExp(glob: string): string {
+    let regex = '';
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+
+      if (char === '*' && glob[i + 1] === '*') {
+        // '**/' matches zero or more directories, any other '**' everything (including '/')
+        if (glob[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+        const end = glob.indexOf(']', i + 2);
+        const set = glob.substring(i + 1, end).replace(/\\/g, '\\\\');
+        regex += set.startsWith('!') ? `[^${set.substring(1)}]` : `[${set}]`;
+        i = end;
+      } else if (char === '\\' && i + 1 < glob.length) {
+        regex += SessionIgnore.escape(glob[++i]);
+      } else {
+        regex += SessionIgnore.escape(char);
+      }
+    }
+
+    return regex;
+  }
+
+  private static escape(char: string): string {
+    return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+}
+
+/**
+ * List the excluded paths of a workspace (the topmost excluded entry of each excluded subtree)
+ * @param skipNames Top-level entry names that are never part of the workspace archive (not reported)
+ */
+export async function findIgnoredPaths(workspaceDir: string, ignore: SessionIgnore, skipNames: string[] = []): Promise<string[]> {
+  const ignored: string[] = [];
+
+  const walk = async (dir: string, relativeDir: string): Promise<void> => {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+
+    for (const dirent of entries) {
+      if (!relativeDir && skipNames.includes(dirent.name)) {
+        continue;
+      }
+
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      if (ignore.ignores(relativePath, dirent.isDirectory())) {
+        ignored.push(relativePath);
+      } else if (dirent.isDirectory()) {
+        const localPath = path.join(dir, dirent.name);
+        ignore.loadDirectory(localPath, relativePath);
+        await walk(localPath, relativePath);
+      }
+    }
+  };
+
+  await walk(workspaceDir, '');
+  return ignored.sort();
+}
@@ -0,0 +1,223 @@
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { StorageBackend } from './storageBackend';
+
+/**
+ * Content of a session lock object
+ */
+interface LockRecord {
+  owner: string;      // Unique per acquisition
+  worker: string;     // hostname:pid of the holder
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Lease on a session, held while an execution works on it, so no other worker can resume it meanwhile
+ * Stored as an object next to the session's snapshots and written with conditional puts (one writer wins)
+ * The holder renews the lease in the background; a lease that isn't renewed (crashed worker) expires after the TTL
+ * A lease lost anyway (e.g. renewals failing until it expired) aborts the lock's signal, and confirm() fails
+ */
+export class SessionLock {
+  private backend: StorageBackend;
+  private objectName: string;
+  private sessionId: string;
+  private ttlMs: number;
+  private record: LockRecord;
+  private etag: string;
+  private renewTimer?: NodeJS.Timeout;
+  private renewal: Promise<void> = Promise.resolve(); // Renewals run one at a time (each needs the last ETag)
+  private lost = new AbortController();
+
+  private constructor(
+    backend: StorageBackend,
+    objectName: string,
+    sessionId: string,
+    ttlMs: number,
+    record: LockRecord,
+    etag: string
+  ) {
+    this.backend = backend;
+    this.objectName = objectName;
+    this.sessionId = sessionId;
+    this.ttlMs = ttlMs;
+    this.record = record;
+    this.etag = etag;
+  }
+
+  /**
+   * Acquire the lock of a session (taking over an expired lease)
+   * Throws 'Session is locked' if another execution holds it
+   */
+  static async acquire(backend: StorageBackend, objectName: string, sessionId: string, ttlMs: number): Promise<SessionLock> {
+    const now = new Date();
+    const record: LockRecord = {
+      owner: uuidv4(),
+      worker: `${os.hostname()}:${process.pid}`,
+      acquiredAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + ttlMs).toISOString()
+    };
+    const content = Buffer.from(JSON.stringify(record, null, 2), 'utf-8');
+
+    let etag = await backend.putObjectIf(objectName, content, null);
+    if (etag === null) {
+      const current = await backend.readObject(objectName);
+      const holder = current ? SessionLock.parse(current.content) : null;
+
+      if (holder && Date.parse(holder.expiresAt) > now.getTime()) {
+        throw new Error(`Session is locked: ${sessionId} (held by ${holder.worker} since ${holder.acquiredAt})`);
+      }
+
+      // Expired (or released in the meantime) - only one of several contenders replaces it
+      etag = current
+        ? await backend.putObjectIf(objectName, content, current.etag)
+        : await backend.putObjectIf(objectName, content, null);
+      if (etag === null) {
+        throw new Error(`Session is locked: ${sessionId} (acquired concurrently by another execution)`);
+      }
+
+      if (holder) {
+        logger.warn('Took over expired session lock', {
+          component: 'SessionLock',
+          sessionId,
+          previousWorker: holder.worker,
+          expiredAt: holder.expiresAt
+        });
+      }
+    }
+
+    const lock = new SessionLock(backend, objectName, sessionId, ttlMs, record, etag);
+    lock.startRenewal();
+    return lock;
+  }
+
+  /**
+   * Check if a session's lock is held (exists and hasn't expired)
+   */
+  static async isHeld(backend: StorageBackend, objectName: string): Promise<boolean> {
+    const current = await backend.readObject(objectName);
+    const holder = current ? SessionLock.parse(current.content) : null;
+    return !!holder && Date.parse(holder.expiresAt) > Date.now();
+  }
+
+  private static parse(content: Buffer): LockRecord | null {
+    try {
+      return JSON.parse(content.toString('utf-8')) as LockRecord;
+    } catch {
+      return null; // Unreadable lock objects count as expired
+    }
+  }
+
+  /**
+   * Aborted when the lease is lost to another execution - the holder must stop working on the session
+   */
+  get signal(): AbortSignal {
+    return this.lost.signal;
+  }
+
+  /**
+   * Renew the lease at a third of its TTL, so a missed renewal doesn't let it expire
+   */
+  private startRenewal(): void {
+    this.renewTimer = setInterval(() => {
+      this.renew().catch(error => {
+        // Retried at the next interval - the lease is still valid for a while
+        logger.error('Failed to renew session lock', error, {
+          component: 'SessionLock',
+          sessionId: this.sessionId
+        });
+      });
+    }, Math.max(1000, Math.floor(this.ttlMs / 3)));
+    this.renewTimer.unref();
+  }
+
+  private renew(): Promise<void> {
+    const renewal = this.renewal.catch(() => {}).then(() => this.renewLease());
+    this.renewal = renewal;
+    return renewal;
+  }
+
+  private async renewLease(): Promise<void> {
+    if (this.lost.signal.aborted) {
+      return;
+    }
+
+    const record: LockRecord = {
+      ...this.record,
+      expiresAt: new Date(Date.now() + this.ttlMs).toISOString()
+    };
+    const content = Buffer.from(JSON.stringify(record, null, 2), 'utf-8');
+
+    let etag: string | null;
+    try {
+      etag = await this.backend.putObjectIf(this.objectName, content, this.etag);
+    } catch (error) {
+      if (Date.now() >= Date.parse(this.record.expiresAt)) {
+        this.markLost('expired without renewal');
+      }
+      throw error;
+    }
+
+    if (etag === null) {
+      this.markLost('taken over by another execution');
+      return;
+    }
+
+    this.record = record;
+    this.etag = etag;
+  }
+
+  private markLost(reason: string): void {
+    clearInterval(this.renewTimer);
+    logger.error('Session lock lost', undefined, {
+      component: 'SessionLock',
+      sessionId: this.sessionId,
+      reason
+    });
+    this.lost.abort();
+  }
+
+  /**
+   * Renew the lease now and check that it's still held (call before writing the session)
+   * Throws 'Session lock lost' if another execution took it over
+   */
+  async confirm(): Promise<void> {
+    try {
+      await this.renew();
+    } catch (error) {
+      // Storage unreachable but the lease still valid - the write decides
+      logger.warn('Could not renew session lock before writing', {
+        component: 'SessionLock',
+        sessionId: this.sessionId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (this.lost.signal.aborted) {
+      throw new Error(`Session lock lost: ${this.sessionId} (another execution took it over)`);
+    }
+  }
+
+  /**
+   * Release the lock (if it's still ours)
+   * Removed only while it still has our ETag, so a lock taken over meanwhile stays in place
+   * Failures are logged only - the lease expires on its own
+   */
+  async release(): Promise<void> {
+    clearInterval(this.renewTimer);
+    await this.renewal.catch(() => {});
+    if (this.lost.signal.aborted) {
+      return;
+    }
+
+    try {
+      await this.backend.removeObjectIf(this.objectName, this.etag);
+    } catch (error) {
+      logger.error('Failed to release session lock', error, {
+        component: 'SessionLock',
+        sessionId: this.sessionId
+      });
+    }
+  }
+}
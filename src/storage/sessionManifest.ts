@@ -0,0 +1,217 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SessionIgnore } from './sessionIgnore';
+
+/**
+ * An entry of a chunked (content-addressed) session snapshot
+ * File content is stored once per session as blobs/{hash}, shared by every snapshot that contains it
+ */
+export interface ManifestEntry {
+  path: string;    // Archive path, same layout as the tarball: workspace/..., .claude/..., .codex/...
+  type?: ManifestEntryType; // Absent in manifests written before directories and symlinks were recorded
+  hash?: string;   // SHA-256 of the file content (hex) - files only
+  size: number;
+  mtime: number;   // Modification time (ms) - unchanged files are not re-hashed on the next upload
+  mode?: number;   // Permission bits (e.g. 0o755)
+  target?: string; // Link target - symlinks only
+}
+
+export type ManifestEntryType = 'file' | 'directory' | 'symlink';
+
+/**
+ * Manifest object of a chunked session snapshot (snapshots/{n}.manifest.json)
+ */
+export interface SessionManifest {
+  version: 1;
+  compression: 'gzip'; // Blob encoding
+  keyId?: string;      // Encryption key of the blobs (stored as blobs/{keyId}/{hash}) - absent if unencrypted
+  files: ManifestEntry[];
+}
+
+/**
+ * A local directory packaged into the session archive under an archive path prefix
+ */
+export interface ArchiveRoot {
+  prefix: string;           // e.g. 'workspace'
+  dir: string;              // Local directory
+  excludeNames?: string[];  // Top-level entry names to skip
+  secretNames?: string[];   // Top-level files never stored (credentials) - skipped when archiving and restoring
+  ignore?: SessionIgnore;   // Exclude rules (.sessionignore / storage.exclude) - workspace only
+  keepNames?: string[];     // Top-level entry names the exclude rules don't apply to (session records)
+}
+
+/**
+ * An entry found while scanning the archive roots
+ */
+export interface ScannedEntry {
+  entry: ManifestEntry;
+  localPath: string;
+}
+
+/**
+ * Create a manifest for the given files
+ */
+export function createManifest(files: ManifestEntry[], keyId?: string): SessionManifest {
+  return keyId ? { version: 1, compression: 'gzip', keyId, files } : { version: 1, compression: 'gzip', files };
+}
+
+/**
+ * Whether an entry is a file with content in the session's blobs
+ */
+export function isFileEntry(entry: ManifestEntry): entry is ManifestEntry & { hash: string } {
+  return (entry.type || 'file') === 'file' && !!entry.hash;
+}
+
+/**
+ * Time value for fs.utimes that restores a manifest mtime (ms)
+ * Half a millisecond is added so float rounding never lands below the recorded millisecond,
+ * which would make the next upload re-hash the file
+ */
+export function utimeOf(mtime: number): number {
+  return (mtime + 0.5) / 1000;
+}
+
+/**
+ * SHA-256 of a file, streamed
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Collect every entry under the archive roots: files with their content hash, directories
+ * (so empty ones survive) and symlinks (stored as links, never followed)
+ * Files whose size and mtime match the previous manifest reuse its hash instead of being re-read
+ * Entries excluded by the root's ignore rules, sockets, FIFOs and devices are skipped
+ */
+export async function scanArchiveEntries(roots: ArchiveRoot[], previous?: SessionManifest): Promise<ScannedEntry[]> {
+  const known = new Map((previous?.files || []).map(entry => [entry.path, entry]));
+  const scanned: ScannedEntry[] = [];
+
+  const walk = async (root: ArchiveRoot, dir: string, relativeDir: string): Promise<void> => {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+
+    for (const dirent of entries) {
+      if (!relativeDir && [...(root.excludeNames || []), ...(root.secretNames || [])].includes(dirent.name)) {
+        continue;
+      }
+
+      const localPath = path.join(dir, dirent.name);
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      const archivePath = `${root.prefix}/${relativePath}`;
+      const stats = await fs.promises.lstat(localPath);
+      const mtime = Math.floor(stats.mtimeMs);
+      const mode = stats.mode & 0o7777;
+
+      if (root.ignore && !isKeptEntry(root, relativePath) && root.ignore.ignores(relativePath, stats.isDirectory())) {
+        continue;
+      }
+
+      if (stats.isSymbolicLink()) {
+        const target = await fs.promises.readlink(localPath);
+        scanned.push({ entry: { path: archivePath, type: 'symlink', size: 0, mtime, target }, localPath });
+      } else if (stats.isDirectory()) {
+        scanned.push({ entry: { path: archivePath, type: 'directory', size: 0, mtime, mode }, localPath });
+        root.ignore?.loadDirectory(localPath, relativePath);
+        await walk(root, localPath, relativePath);
+      } else if (stats.isFile()) {
+        const previousEntry = known.get(archivePath);
+        const hash = previousEntry && isFileEntry(previousEntry)
+          && previousEntry.size === stats.size && previousEntry.mtime === mtime
+          ? previousEntry.hash
+          : await hashFile(localPath);
+
+        scanned.push({
+          entry: { path: archivePath, type: 'file', hash, size: stats.size, mtime, mode },
+          localPath
+        });
+      }
+    }
+  };
+
+  for (const root of roots) {
+    if (fs.existsSync(root.dir)) {
+      await walk(root, root.dir, '');
+    }
+  }
+
+  return scanned;
+}
+
+/**
+ * Resolve an archive path to a local path below one of the roots
+ * Throws for paths outside every root (e.g. containing '..') or inside an excluded entry
+ */
+export function resolveArchivePath(archivePath: string, roots: ArchiveRoot[]): string {
+  const parts = path.posix.normalize(archivePath).replace(/\/$/, '').split('/');
+
+  if (!parts.includes('..')) {
+    for (const root of roots) {
+      if (parts[0] === root.prefix && !(root.excludeNames || []).includes(parts[1])) {
+        return path.join(root.dir, ...parts.slice(1));
+      }
+    }
+  }
+
+  throw new Error(`Invalid path in session archive: ${archivePath}`);
+}
+
+/**
+ * Whether an archive path is one of the secret files of its root
+ * Archives written before secrets were left out still contain them - they are not restored
+ */
+export function isSecretArchivePath(archivePath: string, roots: ArchiveRoot[]): boolean {
+  const parts = path.posix.normalize(archivePath).replace(/\/$/, '').split('/');
+  return parts.length === 2 && roots.some(root => parts[0] === root.prefix && (root.secretNames || []).includes(parts[1]));
+}
+
+/**
+ * Map a local path to its archive path (the reverse of resolveArchivePath)
+ * Returns null for paths outside every root or inside an excluded entry
+ */
+export function toArchivePath(localPath: string, roots: ArchiveRoot[]): string | null {
+  // Most specific root first - provider state lives inside the workspace root's directory
+  const candidates = [...roots].sort((a, b) => b.dir.length - a.dir.length);
+
+  for (const root of candidates) {
+    const relative = path.relative(root.dir, localPath);
+    if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      continue;
+    }
+
+    const parts = relative === '' ? [] : relative.split(path.sep);
+    if ((root.excludeNames || []).includes(parts[0])) {
+      return null;
+    }
+    return [root.prefix, ...parts].join('/');
+  }
+
+  return null;
+}
+
+/**
+ * Check if a path relative to an archive root is one of its keepNames (never excluded)
+ */
+export function isKeptEntry(root: ArchiveRoot, relativePath: string): boolean {
+  return (root.keepNames || []).includes(relativePath);
+}
+
+/**
+ * Run an async function over items with at most `limit` calls in flight
+ */
+export async function forEachConcurrent<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
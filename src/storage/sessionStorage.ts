@@ -1,65 +1,207 @@
-import { Client as MinioClient } from 'minio';
 import * as tar from 'tar';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import { Readable, Transform } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { promisify } from 'util';
 import { logger } from '../utils/logger';
-import { SessionMetadata, SSEEvent } from '../types';
+import { SessionMetadata, SessionSnapshot, SSEEvent, StorageFormat } from '../types';
+import {
+  ArchiveRoot,
+  ScannedEntry,
+  SessionManifest,
+  createManifest,
+  forEachConcurrent,
+  isFileEntry,
+  isKeptEntry,
+  isSecretArchivePath,
+  resolveArchivePath,
+  scanArchiveEntries,
+  toArchivePath,
+  utimeOf
+} from './sessionManifest';
+import { SessionIgnore, findIgnoredPaths } from './sessionIgnore';
+import { StorageBackend, StoredObject, createStorageBackend } from './storageBackend';
+import { SessionEncryption } from './sessionEncryption';
+import { stripGitCredentials } from './sessionSecrets';
+import { SessionLock } from './sessionLock';
+
+const gzip = promisify(zlib.gzip);
+
+// Minimum time between two progress reports of a transfer
+const PROGRESS_INTERVAL_MS = 1000;
+
+/**
+ * Details recorded with a snapshot when a session is uploaded
+ */
+export interface SnapshotDetails {
+  userRequest?: string;
+  provider?: string;
+  parentSnapshot?: number;
+  exclude?: string[]; // Workspace exclude patterns of the request (in addition to .sessionignore files)
+}
+
+/**
+ * Progress of a session download or upload
+ */
+export interface TransferProgress {
+  direction: 'download' | 'upload';
+  bytes: number;       // Bytes transferred so far
+  totalBytes?: number; // Unknown for tarball uploads (compressed on the fly)
+  done: boolean;
+}
+
+/**
+ * State directory of a provider in the session HOME, kept with the session (e.g. ".claude")
+ */
+export interface ProviderStateDir {
+  name: string;
+  secretNames?: string[]; // Credential files directly inside the directory - never archived
+}
+
+export type TransferProgressCallback = (progress: TransferProgress) => void;
+
+/**
+ * Counts the bytes of a transfer and reports them at most every PROGRESS_INTERVAL_MS, plus once when done
+ */
+class ProgressReporter {
+  bytes = 0;
+  totalBytes?: number;
+  private direction: TransferProgress['direction'];
+  private onProgress?: TransferProgressCallback;
+  private lastReport = 0;
+
+  constructor(direction: TransferProgress['direction'], onProgress?: TransferProgressCallback, totalBytes?: number) {
+    this.direction = direction;
+    this.onProgress = onProgress;
+    this.totalBytes = totalBytes;
+  }
+
+  add(bytes: number): void {
+    this.bytes += bytes;
+    if (Date.now() - this.lastReport >= PROGRESS_INTERVAL_MS) {
+      this.report(false);
+    }
+  }
+
+  /**
+   * Pass-through stream that counts the bytes flowing through it
+   */
+  counter(): Transform {
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        this.add(chunk.length);
+        callback(null, chunk);
+      }
+    });
+  }
+
+  finish(): void {
+    this.report(true);
+  }
+
+  private report(done: boolean): void {
+    this.lastReport = Date.now();
+    this.onProgress?.({ direction: this.direction, bytes: this.bytes, totalBytes: this.totalBytes, done });
+  }
+}
+
+/**
+ * A snapshot object in the storage backend (tarball or manifest)
+ */
+interface SnapshotObject {
+  snapshot: number;
+  format: StorageFormat;
+  objectName: string;
+  size: number;
+  lastModified?: Date;
+}
 
 /**
- * Session storage using MinIO for complete session isolation
- * Each session is stored as a compressed tarball in MinIO
+ * Session storage in an object store (see StorageBackend) for complete session isolation
+ * Each upload is stored as a numbered snapshot of the session, in the format set by SESSION_STORAGE_FORMAT:
+ *   {sessionId}/snapshots/000001.manifest.json - chunked: file list, content in {sessionId}/blobs/{sha256}
+ *   {sessionId}/snapshots/000001.tar.gz        - tarball: complete session archive
+ *   {sessionId}/snapshots/000001.json          - snapshot record (SessionSnapshot)
+ * Archives written before snapshots existed ({sessionId}/session.tar.gz) are read as snapshot 0
+ * {sessionId}/lock.json exists while an execution holds the session (see SessionLock)
+ * With encryption keys configured, every object is stored envelope-encrypted (see SessionEncryption)
  */
 export class SessionStorage {
-  private minio?: MinioClient;
-  private bucket?: string;
-  private enabled: boolean;
+  // Sessions of a tenant are stored under tenants/{tenant}/{sessionId}/
+  private static readonly TENANTS_PREFIX = 'tenants/';
+
+  // Per-session HOME directory inside the session root (holds ~/.claude, ~/.codex and credentials)
+  private static readonly HOME_DIRNAME = '.home';
+
+  // Session records in the session root - always stored, whatever the exclude rules say
+  private static readonly SESSION_FILES = ['.session-metadata.json', '.stream-events.jsonl'];
+
+  // Paths of the session root files inside the session tarball
+  private static readonly METADATA_ENTRY = 'workspace/.session-metadata.json';
+  private static readonly STREAM_EVENTS_ENTRY = 'workspace/.stream-events.jsonl';
+
+  private static readonly SNAPSHOTS_DIRNAME = 'snapshots/';
+  private static readonly BLOBS_DIRNAME = 'blobs/';
+  private static readonly LEGACY_ARCHIVE = 'session.tar.gz';
+  private static readonly LOCK_OBJECT = 'lock.json';
+
+  // Parallel blob transfers per upload/download
+  private static readonly TRANSFER_CONCURRENCY = 8;
+
+  // Files up to this size are compressed in memory before upload
+  private static readonly INLINE_BLOB_BYTES = 8 * 1024 * 1024;
+
+  private backend: StorageBackend | null; // null = persistence disabled
+  private snapshotRetention: number; // Snapshots kept per session (0 = keep all)
+  private format: StorageFormat; // Format of new snapshots
+  private encryption: SessionEncryption;
+  private lockTtlMs: number; // Lease of a session lock without renewal
+  private stateDirs: ProviderStateDir[]; // Provider state archived with the sessions (see ProviderFactory.getStateDirs)
 
-  constructor() {
-    // Check if MinIO is configured
-    const endpoint = process.env.MINIO_ENDPOINT;
-    this.enabled = !!endpoint;
+  // Manifest each local session was restored from, keyed by local path - lets the upload skip unchanged files
+  private manifests = new Map<string, SessionManifest>();
 
-    if (!this.enabled) {
-      logger.info('MinIO not configured, session storage disabled', {
+  constructor(stateDirs: ProviderStateDir[]) {
+    this.stateDirs = stateDirs;
+    this.snapshotRetention = parseInt(process.env.SESSION_SNAPSHOT_RETENTION || '10');
+
+    const format = process.env.SESSION_STORAGE_FORMAT || 'chunked';
+    if (format !== 'chunked' && format !== 'tarball') {
+      throw new Error(`Unsupported SESSION_STORAGE_FORMAT: ${format}`);
+    }
+    this.format = format;
+    this.encryption = SessionEncryption.fromEnv();
+    this.lockTtlMs = parseInt(process.env.SESSION_LOCK_TTL_SECONDS || '300') * 1000;
+
+    this.backend = createStorageBackend();
+    if (!this.backend) {
+      logger.info('Storage backend not configured, session storage disabled', {
         component: 'SessionStorage'
       });
       return;
     }
 
-    this.bucket = process.env.MINIO_BUCKET || 'sessions';
-
-    this.minio = new MinioClient({
-      endPoint: endpoint!,
-      port: parseInt(process.env.MINIO_PORT || '9000'),
-      useSSL: process.env.MINIO_USE_SSL === 'true',
-      accessKey: process.env.MINIO_ACCESS_KEY || 'minioadmin',
-      secretKey: process.env.MINIO_SECRET_KEY || 'minioadmin'
-    });
-
-    logger.info('MinIO session storage initialized', {
+    logger.info('Session storage initialized', {
       component: 'SessionStorage',
-      endpoint,
-      bucket: this.bucket
+      backend: this.backend.describe(),
+      format: this.format,
+      encrypted: this.encryption.enabled,
+      snapshotRetention: this.snapshotRetention
     });
   }
 
   /**
-   * Initialize MinIO bucket (call on startup)
+   * Prepare the storage backend, e.g. create the MinIO bucket (call on startup)
    */
   async initialize(): Promise<void> {
-    if (!this.enabled || !this.minio || !this.bucket) return;
+    if (!this.backend) return;
 
     try {
-      const exists = await this.minio.bucketExists(this.bucket);
-      if (!exists) {
-        await this.minio.makeBucket(this.bucket);
-        logger.info('Created MinIO bucket', {
-          component: 'SessionStorage',
-          bucket: this.bucket
-        });
-      }
+      await this.backend.initialize();
     } catch (error) {
-      logger.error('Failed to initialize MinIO bucket', error, {
+      logger.error('Failed to initialize storage backend', error, {
         component: 'SessionStorage'
       });
       throw error;
@@ -67,238 +209,624 @@ export class SessionStorage {
   }
 
   /**
-   * Download session from MinIO to local workspace
+   * Name of the storage backend ('minio', 'local'), or null if session storage is disabled
+   */
+  get backendName(): string | null {
+    return this.backend?.name ?? null;
+  }
+
+  /**
+   * Human-readable storage location, for the startup banner
+   */
+  describeBackend(): string {
+    return this.backend?.describe() ?? 'Not configured';
+  }
+
+  /**
+   * Download session from storage to local workspace
    * Restores workspace, ~/.claude, and ~/.codex for complete session state
    * Creates empty workspace if session doesn't exist
+   * ~/.claude and ~/.codex are restored into the session's own HOME (see getHomeDir)
+   * Tarball snapshots are migrated to the chunked format after download (SESSION_STORAGE_FORMAT=chunked)
+   * @param snapshot Snapshot to restore (default: latest); throws if it doesn't exist
+   * @param onProgress Called with the transferred bytes while downloading
+   * @returns Number of the restored snapshot, or null for a new session
    */
-  async downloadSession(sessionId: string, localPath: string): Promise<boolean> {
-    if (!this.enabled || !this.minio || !this.bucket) {
-      // Without MinIO, just create empty directory
+  async downloadSession(
+    sessionId: string,
+    localPath: string,
+    tenant?: string,
+    snapshot?: number,
+    onProgress?: TransferProgressCallback
+  ): Promise<number | null> {
+    if (!this.backend) {
+      // Without storage, just create empty directory
       if (!fs.existsSync(localPath)) {
         fs.mkdirSync(localPath, { recursive: true });
       }
-      return false;
+      return null;
     }
 
-    const objectName = `${sessionId}/session.tar.gz`;
-    const tarPath = `${localPath}-complete.tar.gz`;
-    const tmpExtractDir = `${localPath}-extract`;
-    const homeDir = process.env.HOME || '/home/worker';
+    const snapshots = await this.listSnapshotObjects(sessionId, tenant);
+    const target = snapshot === undefined
+      ? snapshots[snapshots.length - 1]
+      : snapshots.find(s => s.snapshot === snapshot);
+
+    if (snapshot !== undefined && !target) {
+      throw new Error(`Snapshot not found: ${sessionId}@${snapshot}`);
+    }
+    if (!target) {
+      // New session - create empty workspace
+      logger.info('Session not found in storage, creating new workspace', {
+        component: 'SessionStorage',
+        sessionId
+      });
+      fs.mkdirSync(localPath, { recursive: true });
+      return null;
+    }
 
     try {
-      logger.info('Downloading session from MinIO', {
+      logger.info('Downloading session from storage', {
         component: 'SessionStorage',
         sessionId,
-        objectName
+        snapshot: target.snapshot,
+        format: target.format,
+        objectName: target.objectName
       });
 
-      // Download tarball
-      await this.minio.fGetObject(this.bucket, objectName, tarPath);
+      const progress = new ProgressReporter('download', onProgress, target.size);
+      if (target.format === 'chunked') {
+        await this.downloadChunked(sessionId, target.objectName, localPath, progress, tenant);
+      } else {
+        await this.downloadTarball(sessionId, target.objectName, localPath, progress);
+      }
+      progress.finish();
 
-      // Create temporary extraction directory
-      fs.mkdirSync(tmpExtractDir, { recursive: true });
+      if (target.format === 'tarball' && this.format === 'chunked') {
+        await this.migrateSnapshot(sessionId, target, localPath, tenant);
+      }
+
+      logger.info('Session downloaded successfully', {
+        component: 'SessionStorage',
+        sessionId,
+        snapshot: target.snapshot,
+        localPath
+      });
 
-      // Extract tarball to temporary directory
-      await tar.extract({
-        file: tarPath,
-        cwd: tmpExtractDir
+      return target.snapshot;
+    } catch (err) {
+      logger.error('Failed to download session', err, {
+        component: 'SessionStorage',
+        sessionId
       });
+      throw err;
+    }
+  }
 
-      // Move workspace contents to final location
-      const workspaceExtractPath = path.join(tmpExtractDir, 'workspace');
-      if (fs.existsSync(workspaceExtractPath)) {
-        fs.mkdirSync(localPath, { recursive: true });
-        await this.copyDirectory(workspaceExtractPath, localPath);
+  /**
+   * Restore a tarball snapshot into the local workspace and the session HOME
+   * The object is streamed straight into the tar parser; archive paths are remapped to their local
+   * roots (workspace/ -> session root, .claude/ and .codex/ -> session HOME) while extracting
+   * With encryption, the archive is decrypted into a temporary file first and only extracted once
+   * its GCM tag is verified
+   */
+  private async downloadTarball(
+    sessionId: string,
+    objectName: string,
+    localPath: string,
+    progress: ProgressReporter
+  ): Promise<void> {
+    const roots = this.archiveRoots(localPath);
+    const toLocal = (archivePath: string): string | null => {
+      if (isSecretArchivePath(archivePath, roots)) {
+        return null;
+      }
+      try {
+        return path.relative(localPath, resolveArchivePath(archivePath, roots)) || '.';
+      } catch {
+        return null;
+      }
+    };
+
+    // Remove existing ~/.claude and ~/.codex to avoid conflicts
+    for (const root of roots.slice(1)) {
+      fs.rmSync(root.dir, { recursive: true, force: true });
+    }
+    fs.mkdirSync(localPath, { recursive: true });
+
+    // tar makes directories writable and sets their mtime before extracting their contents
+    const directories: { target: string; mode?: number; mtime: Date }[] = [];
+
+    const verifiedPath = `${localPath}-snapshot.tar.gz`;
+    try {
+      let objectStream: Readable;
+      if (this.encryption.enabled) {
+        await pipeline(await this.getRequiredObject(objectName), progress.counter(), fs.createWriteStream(verifiedPath));
+        objectStream = fs.createReadStream(verifiedPath);
       } else {
-        // Fallback: if workspace wasn't in a subdirectory
-        fs.mkdirSync(localPath, { recursive: true });
+        const source = await this.getRequiredObject(objectName);
+        objectStream = source.pipe(progress.counter());
+        source.on('error', (err) => objectStream.destroy(err));
       }
 
-      // Restore ~/.claude if it exists in the archive
-      const claudeExtractPath = path.join(tmpExtractDir, '.claude');
-      if (fs.existsSync(claudeExtractPath)) {
-        const claudeDestPath = path.join(homeDir, '.claude');
-        // Remove existing ~/.claude to avoid conflicts
-        if (fs.existsSync(claudeDestPath)) {
-          fs.rmSync(claudeDestPath, { recursive: true, force: true });
+      await this.extractTarball(objectStream, localPath, toLocal, directories);
+    } finally {
+      await fs.promises.rm(verifiedPath, { force: true });
+    }
+
+    await this.restoreDirectoryAttributes(directories);
+
+    logger.info('Restored session archive', {
+      component: 'SessionStorage',
+      sessionId,
+      bytes: progress.bytes
+    });
+  }
+
+  private extractTarball(
+    objectStream: Readable,
+    localPath: string,
+    toLocal: (archivePath: string) => string | null,
+    directories: { target: string; mode?: number; mtime: Date }[]
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const unpack = tar.extract({
+        cwd: localPath,
+        // Archive entries are stored relative to the package dir (e.g. ./workspace/...) - skip anything else
+        filter: (entryPath) => toLocal(entryPath) !== null,
+        onReadEntry: (entry) => {
+          entry.path = toLocal(entry.path)!;
+          if (entry.type === 'Link' && entry.linkpath) {
+            entry.linkpath = toLocal(entry.linkpath) ?? entry.linkpath;
+          }
+          if (entry.type === 'Directory' && entry.mtime) {
+            directories.push({ target: path.resolve(localPath, entry.path), mode: entry.mode, mtime: entry.mtime });
+          }
         }
-        await this.copyDirectory(claudeExtractPath, claudeDestPath);
-        logger.info('Restored ~/.claude from session', {
-          component: 'SessionStorage',
-          sessionId
-        });
+      });
+
+      objectStream.on('error', reject);
+      unpack.on('error', reject);
+      unpack.on('close', () => resolve());
+
+      objectStream.pipe(unpack);
+    });
+  }
+
+  /**
+   * Restore a chunked snapshot: fetch every file of the manifest from the session's blobs
+   * and recreate its directories and symlinks with their modes and mtimes
+   */
+  private async downloadChunked(
+    sessionId: string,
+    objectName: string,
+    localPath: string,
+    progress: ProgressReporter,
+    tenant?: string
+  ): Promise<void> {
+    const manifest = await this.readJsonObject<SessionManifest>(objectName);
+    if (!manifest) {
+      throw new Error(`Session manifest not found: ${objectName}`);
+    }
+    progress.totalBytes = manifest.files.reduce((sum, entry) => sum + entry.size, 0);
+
+    const roots = this.archiveRoots(localPath);
+    const blobPrefix = this.blobPrefix(sessionId, tenant);
+    fs.mkdirSync(localPath, { recursive: true });
+
+    // Remove existing ~/.claude and ~/.codex to avoid conflicts, as the tarball restore does
+    for (const root of roots.slice(1)) {
+      if (manifest.files.some(entry => entry.path.startsWith(`${root.prefix}/`))) {
+        fs.rmSync(root.dir, { recursive: true, force: true });
       }
+    }
 
-      // Restore ~/.codex if it exists in the archive
-      const codexExtractPath = path.join(tmpExtractDir, '.codex');
-      if (fs.existsSync(codexExtractPath)) {
-        const codexDestPath = path.join(homeDir, '.codex');
-        // Remove existing ~/.codex to avoid conflicts
-        if (fs.existsSync(codexDestPath)) {
-          fs.rmSync(codexDestPath, { recursive: true, force: true });
-        }
-        await this.copyDirectory(codexExtractPath, codexDestPath);
-        logger.info('Restored ~/.codex from session', {
-          component: 'SessionStorage',
-          sessionId
-        });
+    const entries = manifest.files
+      .filter(entry => !isSecretArchivePath(entry.path, roots))
+      // State of a provider no longer configured is left in storage, as the tarball restore skips it
+      .filter(entry => roots.some(root => entry.path.split('/')[0] === root.prefix))
+      .map(entry => ({ entry, target: resolveArchivePath(entry.path, roots) }));
+    const directories = entries.filter(({ entry }) => entry.type === 'directory');
+
+    // Directories first, so empty ones are restored too
+    for (const { target } of directories) {
+      await fs.promises.mkdir(target, { recursive: true });
+    }
+
+    const files = entries.filter(({ entry }) => isFileEntry(entry));
+    await forEachConcurrent(files, SessionStorage.TRANSFER_CONCURRENCY, async ({ entry, target }) => {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+      const blob = await this.getRequiredObject(`${blobPrefix}${this.blobName(entry.hash!, manifest.keyId)}`);
+      await pipeline(blob, zlib.createGunzip(), fs.createWriteStream(target));
+
+      if (entry.mode !== undefined) {
+        await fs.promises.chmod(target, entry.mode);
       }
+      // Keep mtimes so the next upload can skip hashing unchanged files
+      await fs.promises.utimes(target, utimeOf(entry.mtime), utimeOf(entry.mtime));
+      progress.add(entry.size);
+    });
 
-      // Cleanup
-      fs.unlinkSync(tarPath);
-      fs.rmSync(tmpExtractDir, { recursive: true, force: true });
+    // Symlinks after all files, so nothing is written through a restored link; deepest first, so
+    // a link is never created inside another link
+    const symlinks = entries
+      .filter(({ entry }) => entry.type === 'symlink')
+      .sort((a, b) => b.entry.path.split('/').length - a.entry.path.split('/').length);
+    for (const { entry, target } of symlinks) {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.symlink(entry.target!, target);
+      await fs.promises.lutimes(target, utimeOf(entry.mtime), utimeOf(entry.mtime));
+    }
 
-      logger.info('Session downloaded successfully', {
-        component: 'SessionStorage',
-        sessionId,
-        localPath
-      });
+    await this.restoreDirectoryAttributes(directories.map(({ entry, target }) => ({
+      target,
+      mode: entry.mode,
+      mtime: utimeOf(entry.mtime)
+    })));
 
-      return true;
-    } catch (err: any) {
-      if (err.code === 'NotFound') {
-        // New session - create empty workspace
-        logger.info('Session not found in MinIO, creating new workspace', {
-          component: 'SessionStorage',
-          sessionId
-        });
-        fs.mkdirSync(localPath, { recursive: true });
-        return false;
-      } else {
-        logger.error('Failed to download session', err, {
-          component: 'SessionStorage',
-          sessionId
-        });
-        throw err;
+    this.manifests.set(localPath, manifest);
+
+    logger.info('Restored session files from manifest', {
+      component: 'SessionStorage',
+      sessionId,
+      files: manifest.files.length
+    });
+  }
+
+  /**
+   * Apply the archived mode and mtime of restored directories, children first
+   * Runs once their contents are restored: that changed the mtimes, and a read-only mode would have blocked it
+   */
+  private async restoreDirectoryAttributes(directories: { target: string; mode?: number; mtime: number | Date }[]): Promise<void> {
+    const childrenFirst = [...directories].sort((a, b) => b.target.length - a.target.length);
+
+    for (const { target, mode, mtime } of childrenFirst) {
+      if (mode !== undefined) {
+        await fs.promises.chmod(target, mode & 0o7777);
       }
+      await fs.promises.utimes(target, mtime, mtime);
     }
   }
 
   /**
-   * Upload session from local workspace to MinIO
+   * Upload session from local workspace to storage as a new snapshot
    * Includes workspace, ~/.claude, and ~/.codex for complete session state
+   * ~/.claude and ~/.codex are taken from the session's own HOME (see getHomeDir)
+   * Provider credentials are left out and credentials in git remote URLs are removed from the local
+   * repositories first - the next run gets fresh ones from its request
+   * Snapshots beyond the retention limit are removed afterwards (oldest first)
+   * @param onProgress Called with the transferred bytes while uploading
+   * @returns The new snapshot, or null if session storage is disabled
    */
-  async uploadSession(sessionId: string, localPath: string): Promise<void> {
-    if (!this.enabled || !this.minio || !this.bucket) {
-      logger.info('MinIO disabled, skipping upload', {
+  async uploadSession(
+    sessionId: string,
+    localPath: string,
+    tenant?: string,
+    details: SnapshotDetails = {},
+    onProgress?: TransferProgressCallback
+  ): Promise<SessionSnapshot | null> {
+    if (!this.backend) {
+      logger.info('Session storage disabled, skipping upload', {
         component: 'SessionStorage',
         sessionId
       });
-      return;
+      return null;
     }
 
-    const objectName = `${sessionId}/session.tar.gz`;
-    const tarPath = `${localPath}-complete.tar.gz`;
-    const homeDir = process.env.HOME || '/home/worker';
-    const claudeDir = path.join(homeDir, '.claude');
-    const codexDir = path.join(homeDir, '.codex');
-
     try {
-      logger.info('Uploading session to MinIO', {
+      logger.info('Uploading session to storage', {
         component: 'SessionStorage',
         sessionId,
         localPath,
-        claudeDir,
-        codexDir
+        format: this.format
       });
 
-      // Create a temporary directory to organize files for the tarball
-      const tmpPackageDir = `${localPath}-package`;
-      fs.mkdirSync(tmpPackageDir, { recursive: true });
+      const snapshots = await this.listSnapshotObjects(sessionId, tenant);
+      const number = snapshots.length > 0 ? snapshots[snapshots.length - 1].snapshot + 1 : 1;
+      const objectName = this.snapshotObjectName(sessionId, number, this.format, tenant);
 
-      // Copy workspace to package directory
-      const workspaceDestDir = path.join(tmpPackageDir, 'workspace');
-      await this.copyDirectory(localPath, workspaceDestDir);
+      await this.stripCredentials(sessionId, localPath);
+      const roots = this.archiveRoots(localPath, SessionIgnore.forWorkspace(localPath, details.exclude));
+      const progress = new ProgressReporter('upload', onProgress);
+      const size = this.format === 'chunked'
+        ? await this.uploadChunked(sessionId, objectName, localPath, roots, progress, tenant)
+        : await this.uploadTarball(objectName, localPath, roots, progress);
+      progress.finish();
+      this.manifests.delete(localPath);
 
-      // Copy ~/.claude to package directory (if it exists)
-      if (fs.existsSync(claudeDir)) {
-        const claudeDestDir = path.join(tmpPackageDir, '.claude');
-        await this.copyDirectory(claudeDir, claudeDestDir);
-      }
+      // Record what produced the snapshot
+      const snapshot: SessionSnapshot = {
+        snapshot: number,
+        createdAt: new Date().toISOString(),
+        size,
+        ...details
+      };
+      await this.writeJsonObject(this.snapshotRecordName(sessionId, number, tenant), snapshot);
 
-      // Copy ~/.codex to package directory (if it exists)
-      if (fs.existsSync(codexDir)) {
-        const codexDestDir = path.join(tmpPackageDir, '.codex');
-        await this.copyDirectory(codexDir, codexDestDir);
-      }
+      logger.info('Session uploaded successfully', {
+        component: 'SessionStorage',
+        sessionId,
+        snapshot: number,
+        sizeMB: (size / 1024 / 1024).toFixed(2)
+      });
+
+      await this.pruneSnapshots(sessionId, tenant);
+      return { ...snapshot, format: this.format };
+    } catch (error) {
+      logger.error('Failed to upload session', error, {
+        component: 'SessionStorage',
+        sessionId
+      });
+      throw error;
+    }
+  }
 
-      // Create tarball from package directory
-      await tar.create(
-        {
-          gzip: true,
-          file: tarPath,
-          cwd: tmpPackageDir
+  /**
+   * Package the session as one tarball and stream it to storage
+   * Files are read in place: archive paths are remapped from the session root and HOME while packing,
+   * so neither a package directory nor a local tarball is written
+   * @returns Size of the tarball in bytes
+   */
+  private async uploadTarball(
+    objectName: string,
+    localPath: string,
+    roots: ArchiveRoot[],
+    progress: ProgressReporter
+  ): Promise<number> {
+    // Workspace entries (without the session HOME) plus the provider state directories that exist
+    const [workspace, ...providerRoots] = roots;
+    const entries = [
+      ...fs.readdirSync(localPath).filter(name => !(workspace.excludeNames || []).includes(name)),
+      ...providerRoots.filter(root => fs.existsSync(root.dir)).map(root => path.relative(localPath, root.dir))
+    ];
+
+    const pack = tar.create(
+      {
+        gzip: true,
+        cwd: localPath,
+        // Workspace ignore rules; session records and provider state in the session HOME are never excluded (except credentials)
+        filter: (entryPath, stat) => {
+          const relativePath = path.posix.normalize(entryPath);
+          const archivePath = toArchivePath(path.resolve(localPath, relativePath), roots);
+          if (archivePath && isSecretArchivePath(archivePath, roots)) {
+            return false;
+          }
+          if (!workspace.ignore || relativePath.split('/')[0] === SessionStorage.HOME_DIRNAME || isKeptEntry(workspace, relativePath)) {
+            return true;
+          }
+
+          const isDirectory = stat instanceof fs.Stats ? stat.isDirectory() : stat.type === 'Directory';
+          if (workspace.ignore.ignores(relativePath, isDirectory)) {
+            return false;
+          }
+          if (isDirectory) {
+            workspace.ignore.loadDirectory(path.join(localPath, relativePath), relativePath);
+          }
+          return true;
         },
-        ['.']
-      );
+        onWriteEntry: (entry) => {
+          entry.path = toArchivePath(entry.absolute, roots) ?? entry.path;
+          if (entry.type === 'Link' && entry.linkpath) {
+            entry.linkpath = toArchivePath(path.resolve(localPath, entry.linkpath), roots) ?? entry.linkpath;
+          }
+        }
+      },
+      entries
+    );
+    const body = pack.pipe(progress.counter());
+    pack.on('error', (err) => body.destroy(err as Error));
 
-      // Get file size for logging
-      const stats = fs.statSync(tarPath);
-      const sizeMB = (stats.size / 1024 / 1024).toFixed(2);
+    // The size isn't known up front - the MinIO backend uploads it in parts
+    await Promise.all([
+      this.putObject(objectName, body),
+      finished(body)
+    ]);
+
+    return progress.bytes;
+  }
 
-      // Upload to MinIO
-      await this.minio.fPutObject(this.bucket, objectName, tarPath);
+  /**
+   * Upload the session as a manifest plus content-addressed blobs
+   * Only files whose content isn't stored for the session yet are uploaded; files are read in
+   * place, without a temporary copy
+   * @returns Total size of the session files in bytes
+   */
+  private async uploadChunked(
+    sessionId: string,
+    objectName: string,
+    localPath: string,
+    roots: ArchiveRoot[],
+    progress: ProgressReporter,
+    tenant?: string
+  ): Promise<number> {
+    const entries = await scanArchiveEntries(roots, this.manifests.get(localPath));
 
-      // Cleanup
-      fs.unlinkSync(tarPath);
-      fs.rmSync(tmpPackageDir, { recursive: true, force: true });
+    // Blobs of a previous key (or unencrypted ones) are not reused - their content is uploaded again
+    const keyId = this.encryption.currentKeyId(tenant);
+    const blobPrefix = this.blobPrefix(sessionId, tenant);
+    const storedBlobs = new Set((await this.listObjectNames(blobPrefix)).map(name => name.substring(blobPrefix.length)));
 
-      logger.info('Session uploaded successfully', {
+    // Files to upload, keyed by content hash
+    const missing = new Map<string, ScannedEntry>();
+    for (const file of entries) {
+      if (isFileEntry(file.entry) && !storedBlobs.has(this.blobName(file.entry.hash, keyId))) {
+        missing.set(file.entry.hash, file);
+      }
+    }
+
+    progress.totalBytes = Array.from(missing.values()).reduce((sum, file) => sum + file.entry.size, 0);
+    await forEachConcurrent(Array.from(missing), SessionStorage.TRANSFER_CONCURRENCY, async ([hash, file]) => {
+      await this.putBlob(`${blobPrefix}${this.blobName(hash, keyId)}`, file, localPath);
+      progress.add(file.entry.size);
+    });
+
+    const manifest = createManifest(entries.map(scanned => scanned.entry), keyId);
+    await this.writeJsonObject(objectName, manifest);
+    this.manifests.set(localPath, manifest);
+
+    logger.info('Uploaded changed session files', {
+      component: 'SessionStorage',
+      sessionId,
+      entries: entries.length,
+      uploadedFiles: missing.size,
+      uploadedBytes: progress.totalBytes
+    });
+
+    return entries.reduce((sum, scanned) => sum + scanned.entry.size, 0);
+  }
+
+  /**
+   * Upload a file as a gzip-compressed (and, if configured, encrypted) blob
+   * Small files are compressed in memory; large ones into a temporary file next to the session root,
+   * so the upload has a known size instead of being buffered in multipart-sized chunks
+   */
+  private async putBlob(objectName: string, file: ScannedEntry, localPath: string): Promise<void> {
+    if (file.entry.size <= SessionStorage.INLINE_BLOB_BYTES) {
+      const content = await gzip(await fs.promises.readFile(file.localPath));
+      await this.putObject(objectName, content);
+      return;
+    }
+
+    const tmpPath = `${localPath}-blob-${path.basename(objectName)}.gz`;
+    const encrypt = this.encryption.enabled ? [this.encryption.encryptor(this.tenantOf(objectName))] : [];
+    try {
+      await pipeline(fs.createReadStream(file.localPath), zlib.createGzip(), ...encrypt, fs.createWriteStream(tmpPath));
+      await this.backend!.putFile(objectName, tmpPath);
+    } finally {
+      await fs.promises.rm(tmpPath, { force: true });
+    }
+  }
+
+  /**
+   * Convert a tarball snapshot to the chunked format right after it was restored to localPath
+   * The snapshot keeps its number and record; on failure the tarball is left in place
+   * Exclude rules don't apply - the converted snapshot holds what the tarball held, minus credentials
+   */
+  private async migrateSnapshot(sessionId: string, target: SnapshotObject, localPath: string, tenant?: string): Promise<void> {
+    try {
+      await this.stripCredentials(sessionId, localPath);
+      const objectName = this.snapshotObjectName(sessionId, target.snapshot, 'chunked', tenant);
+      await this.uploadChunked(sessionId, objectName, localPath, this.archiveRoots(localPath), new ProgressReporter('upload'), tenant);
+      await this.removeObjects([target.objectName]);
+
+      logger.info('Migrated session snapshot to chunked format', {
         component: 'SessionStorage',
         sessionId,
-        sizeMB
+        snapshot: target.snapshot
       });
     } catch (error) {
-      logger.error('Failed to upload session', error, {
+      logger.error('Failed to migrate session snapshot', error, {
         component: 'SessionStorage',
-        sessionId
+        sessionId,
+        snapshot: target.snapshot
       });
-      throw error;
     }
   }
 
   /**
-   * Helper to recursively copy directory
+   * Local directories that make up the session archive
+   * The first root is the workspace; the others are provider state in the session HOME
+   * @param ignore Exclude rules for the workspace (uploads only)
    */
-  private async copyDirectory(src: string, dest: string): Promise<void> {
-    await fs.promises.mkdir(dest, { recursive: true });
-    const entries = await fs.promises.readdir(src, { withFileTypes: true });
+  private archiveRoots(localPath: string, ignore?: SessionIgnore): ArchiveRoot[] {
+    const homeDir = SessionStorage.getHomeDir(localPath);
+    return [
+      {
+        prefix: 'workspace',
+        dir: localPath,
+        excludeNames: [SessionStorage.HOME_DIRNAME],
+        ignore,
+        keepNames: SessionStorage.SESSION_FILES
+      },
+      ...this.stateDirs.map(({ name, secretNames }) => ({ prefix: name, dir: path.join(homeDir, name), secretNames }))
+    ];
+  }
 
-    for (const entry of entries) {
-      const srcPath = path.join(src, entry.name);
-      const destPath = path.join(dest, entry.name);
+  /**
+   * Remove credentials from the git remote URLs of the repositories in the local session
+   * (clones get the access token embedded in their origin URL)
+   */
+  private async stripCredentials(sessionId: string, localPath: string): Promise<void> {
+    const rewritten = await stripGitCredentials(localPath, [SessionStorage.HOME_DIRNAME]);
+    if (rewritten.length > 0) {
+      logger.info('Removed credentials from git remote URLs', {
+        component: 'SessionStorage',
+        sessionId,
+        configs: rewritten.length
+      });
+    }
+  }
 
-      if (entry.isDirectory()) {
-        await this.copyDirectory(srcPath, destPath);
-      } else {
-        await fs.promises.copyFile(srcPath, destPath);
-      }
+  /**
+   * Workspace paths that uploadSession leaves out of the archive (per .sessionignore files and exclude patterns)
+   * Only the topmost excluded path of each excluded subtree is listed
+   */
+  async findExcludedPaths(localPath: string, exclude?: string[]): Promise<string[]> {
+    return findIgnoredPaths(localPath, SessionIgnore.forWorkspace(localPath, exclude), [
+      SessionStorage.HOME_DIRNAME,
+      ...SessionStorage.SESSION_FILES
+    ]);
+  }
+
+  /**
+   * Get the HOME directory of a session
+   * Each session has its own HOME under the session root, so provider state and
+   * credentials never leak between sessions; it is removed with the session root
+   */
+  static getHomeDir(sessionRoot: string): string {
+    return path.join(sessionRoot, SessionStorage.HOME_DIRNAME);
+  }
+
+  /**
+   * Session IDs are used as object key segments - only allow UUID-like IDs
+   * Sessions without a tenant live beside the tenants/ prefix, so its name is no session ID
+   */
+  static isValidSessionId(sessionId: string): boolean {
+    return /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/.test(sessionId) &&
+      `${sessionId.toLowerCase()}/` !== SessionStorage.TENANTS_PREFIX;
+  }
+
+  /**
+   * Object prefix of a session in the storage backend
+   * Tenant sessions live under tenants/{tenant}/, sessions without a tenant at the root
+   */
+  private sessionPrefix(sessionId: string, tenant?: string): string {
+    if (!SessionStorage.isValidSessionId(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
     }
+    return `${this.tenantPrefix(tenant)}${sessionId}/`;
+  }
+
+  private tenantPrefix(tenant?: string): string {
+    return tenant ? `${SessionStorage.TENANTS_PREFIX}${tenant}/` : '';
   }
 
   /**
-   * List all sessions in MinIO
+   * List sessions in storage (only those of the given tenant)
    */
-  async listSessions(): Promise<string[]> {
-    if (!this.enabled || !this.minio || !this.bucket) {
+  async listSessions(tenant?: string): Promise<string[]> {
+    if (!this.backend) {
       return [];
     }
 
     try {
-      const stream = this.minio.listObjects(this.bucket, '', true);
-      const sessions = new Set<string>();
-
-      return new Promise((resolve, reject) => {
-        stream.on('data', (obj) => {
-          // Extract session ID from path: {sessionId}/workspace.tar.gz
-          if (obj.name) {
-            const sessionId = obj.name.split('/')[0];
-            sessions.add(sessionId);
-          }
-        });
-        stream.on('end', () => resolve(Array.from(sessions)));
-        stream.on('error', reject);
+      // One prefix per session: {tenantPrefix}{sessionId}/
+      const prefix = this.tenantPrefix(tenant);
+      const prefixes = await this.backend.listPrefixes(prefix);
+
+      // Sessions without a tenant share the root with the tenants/ prefix - skip it
+      const candidates = prefixes.filter(sessionPrefix => sessionPrefix !== SessionStorage.TENANTS_PREFIX);
+      const stored = new Set<string>();
+      await forEachConcurrent(candidates, SessionStorage.TRANSFER_CONCURRENCY, async sessionPrefix => {
+        if (await this.hasSessionObjects(sessionPrefix)) {
+          stored.add(sessionPrefix);
+        }
       });
+
+      return candidates
+        .filter(sessionPrefix => stored.has(sessionPrefix))
+        .map(sessionPrefix => sessionPrefix.substring(prefix.length).replace(/\/$/, ''));
     } catch (error) {
       logger.error('Failed to list sessions', error, {
         component: 'SessionStorage'
@@ -308,48 +836,585 @@ export class SessionStorage {
   }
 
   /**
-   * Check if session exists in MinIO
+   * List the tenants that have sessions in storage
    */
-  async sessionExists(sessionId: string): Promise<boolean> {
-    if (!this.enabled || !this.minio || !this.bucket) {
+  async listTenants(): Promise<string[]> {
+    if (!this.backend) {
+      return [];
+    }
+
+    const prefixes = await this.backend.listPrefixes(SessionStorage.TENANTS_PREFIX);
+    return prefixes.map(prefix => prefix.substring(SessionStorage.TENANTS_PREFIX.length).replace(/\/$/, ''));
+  }
+
+  /**
+   * Storage used by a session: all objects under its prefix (snapshots, blobs, records)
+   * lastModified is the time of its newest object
+   */
+  async getSessionUsage(sessionId: string, tenant?: string): Promise<{ bytes: number; objects: number; lastModified?: Date }> {
+    if (!this.backend) {
+      return { bytes: 0, objects: 0 };
+    }
+
+    const objects = await this.listObjectsUnder(this.sessionPrefix(sessionId, tenant));
+    let lastModified: Date | undefined;
+    for (const obj of objects) {
+      if (obj.lastModified && (!lastModified || obj.lastModified > lastModified)) {
+        lastModified = obj.lastModified;
+      }
+    }
+
+    return {
+      bytes: objects.reduce((sum, obj) => sum + obj.size, 0),
+      objects: objects.length,
+      lastModified
+    };
+  }
+
+  /**
+   * Lock a session for an execution, so no other worker resumes it until the lock is released
+   * Throws 'Session is locked' if another execution holds it
+   * @returns The lock, or null if session storage is disabled (nothing to protect)
+   */
+  async lockSession(sessionId: string, tenant?: string): Promise<SessionLock | null> {
+    if (!this.backend) {
+      return null;
+    }
+
+    const objectName = `${this.sessionPrefix(sessionId, tenant)}${SessionStorage.LOCK_OBJECT}`;
+    return await SessionLock.acquire(this.backend, objectName, sessionId, this.lockTtlMs);
+  }
+
+  /**
+   * Check if an execution (on any worker) holds a session's lock
+   */
+  async isSessionLocked(sessionId: string, tenant?: string): Promise<boolean> {
+    if (!this.backend) {
       return false;
     }
 
-    try {
-      const objectName = `${sessionId}/workspace.tar.gz`;
-      await this.minio.statObject(this.bucket, objectName);
+    return await SessionLock.isHeld(this.backend, `${this.sessionPrefix(sessionId, tenant)}${SessionStorage.LOCK_OBJECT}`);
+  }
+
+  /**
+   * Check if session exists in storage (any object under the session prefix but its lock)
+   */
+  async sessionExists(sessionId: string, tenant?: string): Promise<boolean> {
+    if (!this.backend) {
+      return false;
+    }
+
+    return await this.hasSessionObjects(this.sessionPrefix(sessionId, tenant));
+  }
+
+  /**
+   * Check if a session prefix holds anything but a lock object
+   * A lock alone is left by a run that hasn't uploaded yet (or a release that failed) - no stored session
+   */
+  private async hasSessionObjects(sessionPrefix: string): Promise<boolean> {
+    // Snapshots and blobs are in subdirectories - only the top level needs a full listing
+    if ((await this.backend!.listPrefixes(sessionPrefix)).length > 0) {
       return true;
-    } catch (err: any) {
-      if (err.code === 'NotFound') {
-        return false;
+    }
+
+    const objects = await this.backend!.listObjects(sessionPrefix);
+    return objects.some(obj => obj.name !== `${sessionPrefix}${SessionStorage.LOCK_OBJECT}`);
+  }
+
+  /**
+   * Delete session from storage
+   * Removes every object under the session prefix (archive, snapshots, artifacts)
+   * The session is locked meanwhile - throws 'Session is locked' if an execution holds it
+   * @returns Names of the removed objects - empty if the session doesn't exist
+   */
+  async deleteSession(sessionId: string, tenant?: string): Promise<string[]> {
+    if (!this.backend) {
+      return [];
+    }
+
+    const sessionPrefix = this.sessionPrefix(sessionId, tenant);
+    const lock = await this.lockSession(sessionId, tenant);
+    try {
+      // The lock object goes when the lock is released
+      const lockName = `${sessionPrefix}${SessionStorage.LOCK_OBJECT}`;
+      const objectNames = (await this.listObjectNames(sessionPrefix)).filter(name => name !== lockName);
+      await this.removeObjects(objectNames);
+
+      logger.info('Session deleted from storage', {
+        component: 'SessionStorage',
+        sessionId,
+        objectCount: objectNames.length
+      });
+
+      return objectNames;
+    } catch (error) {
+      logger.error('Failed to delete session', error, {
+        component: 'SessionStorage',
+        sessionId
+      });
+      throw error;
+    } finally {
+      await lock?.release();
+    }
+  }
+
+  /**
+   * List the names of all objects under a prefix (recursive)
+   */
+  private async listObjectNames(prefix: string): Promise<string[]> {
+    const objects = await this.listObjectsUnder(prefix);
+    return objects.map(obj => obj.name);
+  }
+
+  /**
+   * List all objects under a prefix (recursive)
+   */
+  private listObjectsUnder(prefix: string): Promise<StoredObject[]> {
+    return this.backend!.listObjects(prefix);
+  }
+
+  /**
+   * Object name of a snapshot (snapshot 0 is the pre-snapshot session.tar.gz)
+   */
+  private snapshotObjectName(sessionId: string, snapshot: number, format: StorageFormat, tenant?: string): string {
+    const prefix = this.sessionPrefix(sessionId, tenant);
+    if (format === 'tarball' && snapshot === 0) {
+      return `${prefix}${SessionStorage.LEGACY_ARCHIVE}`;
+    }
+    const extension = format === 'chunked' ? 'manifest.json' : 'tar.gz';
+    return `${prefix}${SessionStorage.SNAPSHOTS_DIRNAME}${String(snapshot).padStart(6, '0')}.${extension}`;
+  }
+
+  private snapshotRecordName(sessionId: string, snapshot: number, tenant?: string): string {
+    return `${this.sessionPrefix(sessionId, tenant)}${SessionStorage.SNAPSHOTS_DIRNAME}${String(snapshot).padStart(6, '0')}.json`;
+  }
+
+  /**
+   * Name of a blob below the session's blob prefix
+   * Encrypted blobs are kept per key, so content is never reused across a key change, and named by
+   * an HMAC of the content hash (see SessionEncryption.blobName)
+   */
+  private blobName(hash: string, keyId?: string): string {
+    return keyId ? `${keyId}/${this.encryption.blobName(hash, keyId)}` : hash;
+  }
+
+  /**
+   * Prefix of the content-addressed blobs of a session (shared by all its chunked snapshots)
+   */
+  private blobPrefix(sessionId: string, tenant?: string): string {
+    return `${this.sessionPrefix(sessionId, tenant)}${SessionStorage.BLOBS_DIRNAME}`;
+  }
+
+  /**
+   * A session's snapshot objects, oldest first
+   * If a tarball and a manifest exist for the same snapshot (interrupted migration), the manifest wins
+   */
+  private async listSnapshotObjects(sessionId: string, tenant?: string): Promise<SnapshotObject[]> {
+    const prefix = this.sessionPrefix(sessionId, tenant);
+    const [snapshotObjects, legacyObjects] = await Promise.all([
+      this.listObjectsUnder(`${prefix}${SessionStorage.SNAPSHOTS_DIRNAME}`),
+      this.listObjectsUnder(`${prefix}${SessionStorage.LEGACY_ARCHIVE}`)
+    ]);
+
+    const snapshots = new Map<number, SnapshotObject>();
+    for (const obj of [...legacyObjects, ...snapshotObjects]) {
+      const relative = obj.name.substring(prefix.length);
+      const match = relative.match(/^snapshots\/(\d+)\.(tar\.gz|manifest\.json)$/);
+      if (relative !== SessionStorage.LEGACY_ARCHIVE && !match) {
+        continue;
       }
-      throw err;
+
+      const snapshot: SnapshotObject = {
+        snapshot: match ? parseInt(match[1]) : 0,
+        format: match?.[2] === 'manifest.json' ? 'chunked' : 'tarball',
+        objectName: obj.name,
+        size: obj.size,
+        lastModified: obj.lastModified
+      };
+      if (snapshots.get(snapshot.snapshot)?.format !== 'chunked') {
+        snapshots.set(snapshot.snapshot, snapshot);
+      }
+    }
+
+    return Array.from(snapshots.values()).sort((a, b) => a.snapshot - b.snapshot);
+  }
+
+  /**
+   * List a session's snapshots, oldest first
+   * Snapshots without a record (e.g. snapshot 0) are described from the snapshot object alone
+   * Returns an empty list if the session doesn't exist
+   */
+  async listSnapshots(sessionId: string, tenant?: string): Promise<SessionSnapshot[]> {
+    if (!this.backend) {
+      return [];
+    }
+
+    const objects = await this.listSnapshotObjects(sessionId, tenant);
+    const snapshots: SessionSnapshot[] = [];
+
+    for (const obj of objects) {
+      const record = await this.readJsonObject<SessionSnapshot>(this.snapshotRecordName(sessionId, obj.snapshot, tenant));
+      snapshots.push({
+        ...(record || {
+          snapshot: obj.snapshot,
+          createdAt: (obj.lastModified || new Date(0)).toISOString(),
+          size: obj.size
+        }),
+        format: obj.format
+      });
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Restore an older snapshot by copying it to a new (latest) snapshot
+   * History is kept - the restored state is what the next resume starts from
+   * The session is locked meanwhile - throws 'Session is locked' if an execution holds it
+   * @returns The new snapshot, or null if the snapshot doesn't exist
+   */
+  async restoreSnapshot(sessionId: string, snapshot: number, tenant?: string): Promise<SessionSnapshot | null> {
+    if (!this.backend) {
+      return null;
     }
+
+    const lock = await this.lockSession(sessionId, tenant);
+    try {
+      return await this.copySnapshotToLatest(sessionId, snapshot, tenant);
+    } finally {
+      await lock?.release();
+    }
+  }
+
+  private async copySnapshotToLatest(sessionId: string, snapshot: number, tenant?: string): Promise<SessionSnapshot | null> {
+    const snapshots = await this.listSnapshots(sessionId, tenant);
+    const source = snapshots.find(s => s.snapshot === snapshot);
+    if (!source) {
+      return null;
+    }
+
+    const format = source.format!;
+    const restored: SessionSnapshot = {
+      snapshot: snapshots[snapshots.length - 1].snapshot + 1,
+      createdAt: new Date().toISOString(),
+      size: source.size,
+      provider: source.provider,
+      restoredFrom: snapshot
+    };
+
+    // Chunked snapshots share the session's blobs, so copying the manifest is enough
+    await this.backend!.copyObject(
+      this.snapshotObjectName(sessionId, snapshot, format, tenant),
+      this.snapshotObjectName(sessionId, restored.snapshot, format, tenant)
+    );
+    await this.writeJsonObject(this.snapshotRecordName(sessionId, restored.snapshot, tenant), restored);
+
+    logger.info('Session snapshot restored', {
+      component: 'SessionStorage',
+      sessionId,
+      restoredFrom: snapshot,
+      snapshot: restored.snapshot
+    });
+
+    await this.pruneSnapshots(sessionId, tenant);
+    return { ...restored, format };
   }
 
   /**
-   * Delete session from MinIO
+   * Remove the oldest snapshots beyond SESSION_SNAPSHOT_RETENTION, and the blobs only they referenced
+   * Failures are logged only - the new snapshot is already stored
    */
-  async deleteSession(sessionId: string): Promise<void> {
-    if (!this.enabled || !this.minio || !this.bucket) {
+  private async pruneSnapshots(sessionId: string, tenant?: string): Promise<void> {
+    if (this.snapshotRetention <= 0) {
       return;
     }
 
     try {
-      const objectName = `${sessionId}/workspace.tar.gz`;
-      await this.minio.removeObject(this.bucket, objectName);
+      const snapshots = await this.listSnapshotObjects(sessionId, tenant);
+      const keep = Math.max(0, snapshots.length - this.snapshotRetention);
+      const expired = snapshots.slice(0, keep);
+      if (expired.length === 0) {
+        return;
+      }
+
+      await this.removeObjects(expired.flatMap(snapshot => [
+        snapshot.objectName,
+        this.snapshotRecordName(sessionId, snapshot.snapshot, tenant)
+      ]));
 
-      logger.info('Session deleted from MinIO', {
+      logger.info('Pruned old session snapshots', {
+        component: 'SessionStorage',
+        sessionId,
+        snapshots: expired.map(s => s.snapshot).join(',')
+      });
+
+      if (expired.some(snapshot => snapshot.format === 'chunked')) {
+        await this.sweepBlobs(sessionId, snapshots.slice(keep), tenant);
+      }
+    } catch (error) {
+      logger.error('Failed to prune session snapshots', error, {
         component: 'SessionStorage',
         sessionId
       });
+    }
+  }
+
+  /**
+   * Remove blobs that none of the remaining chunked snapshots reference
+   */
+  private async sweepBlobs(sessionId: string, remaining: SnapshotObject[], tenant?: string): Promise<void> {
+    const referenced = new Set<string>();
+    for (const snapshot of remaining.filter(s => s.format === 'chunked')) {
+      const manifest = await this.readJsonObject<SessionManifest>(snapshot.objectName);
+      if (!manifest) {
+        // Never delete blobs based on an incomplete view of the session
+        throw new Error(`Session manifest not found: ${snapshot.objectName}`);
+      }
+      for (const entry of manifest.files.filter(isFileEntry)) {
+        referenced.add(this.blobName(entry.hash, manifest.keyId));
+      }
+    }
+
+    const blobPrefix = this.blobPrefix(sessionId, tenant);
+    const unreferenced = (await this.listObjectNames(blobPrefix))
+      .filter(name => !referenced.has(name.substring(blobPrefix.length)));
+    await this.removeObjects(unreferenced);
+
+    logger.info('Removed unreferenced session blobs', {
+      component: 'SessionStorage',
+      sessionId,
+      blobs: unreferenced.length
+    });
+  }
+
+  /**
+   * Write a JSON object
+   */
+  private async writeJsonObject(objectName: string, value: unknown): Promise<void> {
+    const content = Buffer.from(JSON.stringify(value, null, 2), 'utf-8');
+    await this.putObject(objectName, content, 'application/json');
+  }
+
+  /**
+   * Read and parse a JSON object (null if it doesn't exist)
+   */
+  private async readJsonObject<T>(objectName: string): Promise<T | null> {
+    const stream = await this.getObject(objectName);
+    if (!stream) {
+      return null;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8')) as T;
+  }
+
+  /**
+   * Read an object that the snapshot being read refers to (throws if it doesn't exist)
+   */
+  private async getRequiredObject(objectName: string): Promise<Readable> {
+    const stream = await this.getObject(objectName);
+    if (!stream) {
+      throw new Error(`Session object not found: ${objectName}`);
+    }
+    return stream;
+  }
+
+  /**
+   * Read an object, decrypted (null if it doesn't exist)
+   * Objects stored before encryption was enabled are returned as they are
+   */
+  private async getObject(objectName: string): Promise<Readable | null> {
+    const stream = await this.backend!.getObject(objectName);
+    if (!stream) {
+      return null;
+    }
+
+    const decrypted = stream.pipe(this.encryption.decryptor(this.tenantOf(objectName)));
+    stream.on('error', (err) => decrypted.destroy(err));
+    return decrypted;
+  }
+
+  /**
+   * Write an object, encrypted if encryption keys are configured
+   */
+  private async putObject(objectName: string, body: Buffer | Readable, contentType?: string): Promise<void> {
+    if (!this.encryption.enabled) {
+      await this.backend!.putObject(objectName, body, contentType);
+      return;
+    }
+
+    const tenant = this.tenantOf(objectName);
+    if (Buffer.isBuffer(body)) {
+      await this.backend!.putObject(objectName, this.encryption.encryptBuffer(body, tenant), contentType);
+      return;
+    }
+
+    const encrypted = body.pipe(this.encryption.encryptor(tenant));
+    body.on('error', (err) => encrypted.destroy(err));
+    await this.backend!.putObject(objectName, encrypted, contentType);
+  }
+
+  /**
+   * Tenant of an object, from its tenants/{tenant}/ prefix - selects the encryption key
+   */
+  private tenantOf(objectName: string): string | undefined {
+    return objectName.startsWith(SessionStorage.TENANTS_PREFIX)
+      ? objectName.substring(SessionStorage.TENANTS_PREFIX.length).split('/')[0]
+      : undefined;
+  }
+
+  /**
+   * Remove objects in bulk
+   * Throws if the backend reports a failure for any of them
+   */
+  private async removeObjects(objectNames: string[]): Promise<void> {
+    await this.backend!.removeObjects(objectNames);
+  }
+
+  /**
+   * Get session metadata straight from the latest snapshot in storage
+   * Returns null if the session (or its metadata file) doesn't exist
+   */
+  async getStoredMetadata(sessionId: string, tenant?: string): Promise<SessionMetadata | null> {
+    const entries = await this.readArchiveEntries(sessionId, [SessionStorage.METADATA_ENTRY], tenant);
+    const content = entries?.get(SessionStorage.METADATA_ENTRY);
+
+    if (!content) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(content) as SessionMetadata;
     } catch (error) {
-      logger.error('Failed to delete session', error, {
+      logger.error('Failed to parse stored metadata', error, {
         component: 'SessionStorage',
         sessionId
       });
-      throw error;
+      return null;
+    }
+  }
+
+  /**
+   * Get persisted stream events straight from the latest snapshot in storage
+   * Returns null if the session doesn't exist
+   */
+  async getStoredStreamEvents(sessionId: string, tenant?: string): Promise<SSEEvent[] | null> {
+    const entries = await this.readArchiveEntries(sessionId, [SessionStorage.STREAM_EVENTS_ENTRY], tenant);
+
+    if (!entries) {
+      return null;
+    }
+
+    const content = entries.get(SessionStorage.STREAM_EVENTS_ENTRY);
+    return content ? this.parseStreamEvents(content) : [];
+  }
+
+  /**
+   * Read selected files from the latest session snapshot without extracting it
+   * The archive is streamed from storage through the tar parser and only matching entries are buffered
+   * Returns null if the session doesn't exist
+   */
+  private async readArchiveEntries(sessionId: string, entryPaths: string[], tenant?: string): Promise<Map<string, string> | null> {
+    if (!this.backend) {
+      return null;
+    }
+
+    const snapshots = await this.listSnapshotObjects(sessionId, tenant);
+    const latest = snapshots[snapshots.length - 1];
+    if (!latest) {
+      return null;
+    }
+
+    if (latest.format === 'chunked') {
+      return this.readManifestEntries(sessionId, latest.objectName, entryPaths, tenant);
     }
+
+    let objectStream: Readable | null;
+
+    try {
+      objectStream = await this.getObject(latest.objectName);
+    } catch (err) {
+      logger.error('Failed to read session archive', err, {
+        component: 'SessionStorage',
+        sessionId
+      });
+      throw err;
+    }
+    if (!objectStream) {
+      return null;
+    }
+
+    const wanted = new Set(entryPaths);
+    const entries = new Map<string, string>();
+
+    return new Promise((resolve, reject) => {
+      const parser = tar.t({
+        // Archive entries are stored relative to the package dir (e.g. ./workspace/...)
+        filter: (entryPath) => wanted.has(path.posix.normalize(entryPath)),
+        onReadEntry: (entry) => {
+          const chunks: Buffer[] = [];
+          entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+          entry.on('end', () => {
+            entries.set(path.posix.normalize(entry.path), Buffer.concat(chunks).toString('utf-8'));
+          });
+        }
+      });
+
+      objectStream.on('error', reject);
+      parser.on('error', reject);
+      parser.on('end', () => resolve(entries));
+
+      objectStream.pipe(parser);
+    });
+  }
+
+  /**
+   * Read selected files of a chunked snapshot from their blobs
+   */
+  private async readManifestEntries(
+    sessionId: string,
+    objectName: string,
+    entryPaths: string[],
+    tenant?: string
+  ): Promise<Map<string, string> | null> {
+    const manifest = await this.readJsonObject<SessionManifest>(objectName);
+    if (!manifest) {
+      return null;
+    }
+
+    const blobPrefix = this.blobPrefix(sessionId, tenant);
+    const entries = new Map<string, string>();
+
+    for (const entry of manifest.files.filter(isFileEntry).filter(file => entryPaths.includes(file.path))) {
+      const blob = await this.getRequiredObject(`${blobPrefix}${this.blobName(entry.hash, manifest.keyId)}`);
+      const chunks: Buffer[] = [];
+      for await (const chunk of blob.pipe(zlib.createGunzip())) {
+        chunks.push(chunk as Buffer);
+      }
+      entries.set(entry.path, Buffer.concat(chunks).toString('utf-8'));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get the sequence number of the last persisted stream event (0 if there are none)
+   */
+  getLastEventSeq(sessionId: string, localPath: string): number {
+    const events = this.getStreamEvents(sessionId, localPath);
+    return events.length > 0 ? events[events.length - 1].seq! : 0;
+  }
+
+  /**
+   * Parse JSONL stream event content into events
+   * Events persisted before sequence numbers existed get their 1-based line number as seq
+   */
+  private parseStreamEvents(content: string): SSEEvent[] {
+    const lines = content.trim().split('\n').filter(line => line.length > 0);
+    return lines.map((line, index) => ({ seq: index + 1, ...JSON.parse(line) }));
   }
 
   /**
@@ -406,8 +1471,7 @@ export class SessionStorage {
 
     try {
       const content = fs.readFileSync(eventsPath, 'utf-8');
-      const lines = content.trim().split('\n').filter(line => line.length > 0);
-      return lines.map(line => JSON.parse(line));
+      return this.parseStreamEvents(content);
     } catch (error) {
       logger.error('Failed to read stream events', error, {
         component: 'SessionStorage',
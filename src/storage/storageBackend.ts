@@ -0,0 +1,490 @@
+import { Client as MinioClient, CopyDestinationOptions, CopySourceOptions } from 'minio';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+/**
+ * An object in a storage backend
+ */
+export interface StoredObject {
+  name: string;
+  size: number;
+  lastModified?: Date;
+}
+
+/**
+ * Object store holding the session snapshots
+ * Object names are '/'-separated keys; listing by prefix follows S3 semantics
+ */
+export interface StorageBackend {
+  readonly name: string; // 'minio' or 'local'
+  describe(): string;    // Human-readable location, for logs
+  initialize(): Promise<void>;
+  // Read an object (null if it doesn't exist)
+  getObject(objectName: string): Promise<Readable | null>;
+  // Write an object from a buffer or a stream of unknown size
+  putObject(objectName: string, body: Buffer | Readable, contentType?: string): Promise<void>;
+  // Write an object from a local file
+  putFile(objectName: string, filePath: string): Promise<void>;
+  copyObject(sourceName: string, targetName: string): Promise<void>;
+  // All objects whose name starts with the prefix (recursive)
+  listObjects(prefix: string): Promise<StoredObject[]>;
+  // The distinct next path segments below a '/'-terminated prefix, as '{prefix}{segment}/'
+  listPrefixes(prefix: string): Promise<string[]>;
+  // Remove objects; missing objects are ignored, any other failure throws
+  removeObjects(objectNames: string[]): Promise<void>;
+  // Read a small object with its ETag, for conditional writes (null if it doesn't exist)
+  readObject(objectName: string): Promise<{ content: Buffer; etag: string } | null>;
+  // Write a small object only if it doesn't exist (etag null) or still has the given ETag
+  // Returns the new ETag, or null if the condition failed
+  putObjectIf(objectName: string, content: Buffer, etag: string | null): Promise<string | null>;
+  // Remove a small object only if it still has the given ETag
+  // Returns false if it doesn't exist or was replaced
+  removeObjectIf(objectName: string, etag: string): Promise<boolean>;
+}
+
+/**
+ * MinIO or any other S3-compatible object store
+ */
+class MinioBackend implements StorageBackend {
+  readonly name = 'minio';
+
+  // Part size of streamed uploads - without it the client sizes parts for a 5 TiB object and buffers each in memory
+  private static readonly UPLOAD_PART_BYTES = 64 * 1024 * 1024;
+
+  private client: MinioClient;
+  private bucket: string;
+  private endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+    this.bucket = process.env.MINIO_BUCKET || 'sessions';
+    this.client = new MinioClient({
+      endPoint: endpoint,
+      port: parseInt(process.env.MINIO_PORT || '9000'),
+      useSSL: process.env.MINIO_USE_SSL === 'true',
+      accessKey: process.env.MINIO_ACCESS_KEY || 'minioadmin',
+      secretKey: process.env.MINIO_SECRET_KEY || 'minioadmin',
+      partSize: MinioBackend.UPLOAD_PART_BYTES
+    });
+  }
+
+  describe(): string {
+    return `MinIO (${this.endpoint}, bucket ${this.bucket})`;
+  }
+
+  async initialize(): Promise<void> {
+    const exists = await this.client.bucketExists(this.bucket);
+    if (!exists) {
+      await this.client.makeBucket(this.bucket);
+      logger.info('Created MinIO bucket', {
+        component: 'StorageBackend',
+        bucket: this.bucket
+      });
+    }
+  }
+
+  async getObject(objectName: string): Promise<Readable | null> {
+    try {
+      return await this.client.getObject(this.bucket, objectName);
+    } catch (err: any) {
+      if (err.code === 'NoSuchKey' || err.code === 'NotFound') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async putObject(objectName: string, body: Buffer | Readable, contentType?: string): Promise<void> {
+    const metadata = contentType ? { 'Content-Type': contentType } : {};
+
+    if (Buffer.isBuffer(body)) {
+      await this.client.putObject(this.bucket, objectName, body, body.length, metadata);
+      return;
+    }
+
+    // The client doesn't watch the source stream for errors - fail instead of waiting forever
+    await new Promise<void>((resolve, reject) => {
+      body.once('error', reject);
+      this.client.putObject(this.bucket, objectName, body, undefined, metadata).then(() => resolve(), reject);
+    });
+  }
+
+  async putFile(objectName: string, filePath: string): Promise<void> {
+    await this.client.fPutObject(this.bucket, objectName, filePath);
+  }
+
+  async copyObject(sourceName: string, targetName: string): Promise<void> {
+    await this.client.copyObject(
+      new CopySourceOptions({ Bucket: this.bucket, Object: sourceName }),
+      new CopyDestinationOptions({ Bucket: this.bucket, Object: targetName })
+    );
+  }
+
+  listObjects(prefix: string): Promise<StoredObject[]> {
+    const stream = this.client.listObjects(this.bucket, prefix, true);
+    const objects: StoredObject[] = [];
+
+    return new Promise((resolve, reject) => {
+      stream.on('data', (obj) => {
+        if (obj.name) {
+          objects.push({ name: obj.name, size: obj.size || 0, lastModified: obj.lastModified });
+        }
+      });
+      stream.on('end', () => resolve(objects));
+      stream.on('error', reject);
+    });
+  }
+
+  listPrefixes(prefix: string): Promise<string[]> {
+    // Non-recursive listing returns one common prefix per next path segment
+    const stream = this.client.listObjects(this.bucket, prefix, false);
+    const prefixes: string[] = [];
+
+    return new Promise((resolve, reject) => {
+      stream.on('data', (obj) => {
+        if (obj.prefix) {
+          prefixes.push(obj.prefix);
+        }
+      });
+      stream.on('end', () => resolve(prefixes));
+      stream.on('error', reject);
+    });
+  }
+
+  async removeObjects(objectNames: string[]): Promise<void> {
+    if (objectNames.length === 0) {
+      return;
+    }
+
+    const results = await this.client.removeObjects(this.bucket, objectNames);
+    const failed = results.filter(result => result?.Error);
+    if (failed.length > 0) {
+      const first = failed[0]!.Error!;
+      throw new Error(`Failed to remove ${failed.length} object(s), e.g. ${first.Key}: ${first.Message || first.Code}`);
+    }
+  }
+
+  async readObject(objectName: string): Promise<{ content: Buffer; etag: string } | null> {
+    let etag: string;
+    try {
+      etag = (await this.client.statObject(this.bucket, objectName)).etag;
+    } catch (err: any) {
+      if (err.code === 'NoSuchKey' || err.code === 'NotFound') {
+        return null;
+      }
+      throw err;
+    }
+
+    // A newer object than the one stated just makes a conditional write with this ETag fail
+    const stream = await this.getObject(objectName);
+    if (!stream) {
+      return null;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return { content: Buffer.concat(chunks), etag };
+  }
+
+  async putObjectIf(objectName: string, content: Buffer, etag: string | null): Promise<string | null> {
+    // Conditional writes need S3 conditional write support (MinIO RELEASE.2024-11-07 or later)
+    const condition = etag === null ? { 'If-None-Match': '*' } : { 'If-Match': `"${etag}"` };
+    try {
+      const result = await this.client.putObject(this.bucket, objectName, content, content.length, {
+        'Content-Type': 'application/json',
+        ...condition
+      });
+      return result.etag;
+    } catch (err: any) {
+      // ConditionalRequestConflict: a concurrent conditional write to the same object won
+      if (err.code === 'PreconditionFailed' || err.code === 'ConditionalRequestConflict' ||
+          (etag !== null && (err.code === 'NoSuchKey' || err.code === 'NotFound'))) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async removeObjectIf(objectName: string, etag: string): Promise<boolean> {
+    // Conditional deletes need If-Match support on DeleteObject; removeObject() can't send the header
+    try {
+      await this.client.makeRequestAsyncOmit(
+        { method: 'DELETE', bucketName: this.bucket, objectName, headers: { 'If-Match': `"${etag}"` } },
+        '',
+        [200, 204]
+      );
+      return true;
+    } catch (err: any) {
+      if (err.code === 'PreconditionFailed' || err.code === 'NoSuchKey' || err.code === 'NotFound') {
+        return false;
+      }
+      throw err;
+    }
+  }
+}
+
+/**
+ * Objects as files below a local directory, for single-node and development setups
+ * Writes go to a temporary file that is renamed into place, so readers never see partial objects
+ */
+class LocalBackend implements StorageBackend {
+  readonly name = 'local';
+
+  // Temporary files of in-progress writes (inside the root, so renames stay on one filesystem)
+  private static readonly TMP_DIRNAME = '.tmp';
+
+  // An object mutex older than this was left by a crashed process (conditional writes take milliseconds)
+  private static readonly MUTEX_STALE_MS = 10000;
+
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  describe(): string {
+    return `local filesystem (${this.rootDir})`;
+  }
+
+  async initialize(): Promise<void> {
+    await fs.promises.mkdir(path.join(this.rootDir, LocalBackend.TMP_DIRNAME), { recursive: true });
+  }
+
+  async getObject(objectName: string): Promise<Readable | null> {
+    const filePath = this.objectPath(objectName);
+    try {
+      const stats = await fs.promises.stat(filePath);
+      return stats.isFile() ? fs.createReadStream(filePath) : null;
+    } catch (err: any) {
+      if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  async putObject(objectName: string, body: Buffer | Readable): Promise<void> {
+    await this.writeObject(objectName, async (tmpPath) => {
+      if (Buffer.isBuffer(body)) {
+        await fs.promises.writeFile(tmpPath, body);
+      } else {
+        await pipeline(body, fs.createWriteStream(tmpPath));
+      }
+    });
+  }
+
+  async putFile(objectName: string, filePath: string): Promise<void> {
+    await this.writeObject(objectName, (tmpPath) => fs.promises.copyFile(filePath, tmpPath));
+  }
+
+  async copyObject(sourceName: string, targetName: string): Promise<void> {
+    await this.putFile(targetName, this.objectPath(sourceName));
+  }
+
+  async listObjects(prefix: string): Promise<StoredObject[]> {
+    // Walk the deepest directory the prefix fully names, and match the rest by name
+    const baseName = prefix.substring(0, prefix.lastIndexOf('/') + 1);
+    const objects: StoredObject[] = [];
+
+    const walk = async (dir: string, dirName: string): Promise<void> => {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (err: any) {
+        if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+          return;
+        }
+        throw err;
+      }
+
+      for (const dirent of entries) {
+        const name = `${dirName}${dirent.name}`;
+        if (name === LocalBackend.TMP_DIRNAME) {
+          continue;
+        }
+
+        if (dirent.isDirectory()) {
+          if (`${name}/`.startsWith(prefix) || prefix.startsWith(`${name}/`)) {
+            await walk(path.join(dir, dirent.name), `${name}/`);
+          }
+        } else if (dirent.isFile() && name.startsWith(prefix)) {
+          const stats = await fs.promises.stat(path.join(dir, dirent.name));
+          objects.push({ name, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+
+    await walk(this.objectPath(baseName), baseName);
+    return objects.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async listPrefixes(prefix: string): Promise<string[]> {
+    try {
+      const entries = await fs.promises.readdir(this.objectPath(prefix), { withFileTypes: true });
+      return entries
+        .filter(dirent => dirent.isDirectory() && `${prefix}${dirent.name}` !== LocalBackend.TMP_DIRNAME)
+        .map(dirent => `${prefix}${dirent.name}/`);
+    } catch (err: any) {
+      if (err.code === 'ENOENT' || err.code === 'ENOTDIR') {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  async removeObjects(objectNames: string[]): Promise<void> {
+    for (const objectName of objectNames) {
+      const filePath = this.objectPath(objectName);
+      await fs.promises.rm(filePath, { force: true });
+
+      // Remove directories left empty, as object stores have no empty prefixes
+      let dir = path.dirname(filePath);
+      while (dir !== this.rootDir && dir.startsWith(this.rootDir)) {
+        try {
+          await fs.promises.rmdir(dir);
+        } catch {
+          break; // Not empty (or already gone)
+        }
+        dir = path.dirname(dir);
+      }
+    }
+  }
+
+  async readObject(objectName: string): Promise<{ content: Buffer; etag: string } | null> {
+    const stream = await this.getObject(objectName);
+    if (!stream) {
+      return null;
+    }
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    const content = Buffer.concat(chunks);
+    return { content, etag: LocalBackend.etag(content) };
+  }
+
+  async putObjectIf(objectName: string, content: Buffer, etag: string | null): Promise<string | null> {
+    return await this.withObjectMutex(objectName, async () => {
+      const current = await this.readObject(objectName);
+      if (etag === null ? current !== null : current?.etag !== etag) {
+        return null;
+      }
+
+      // Renamed over the current object, so the object never goes missing in between
+      await this.putObject(objectName, content);
+      return LocalBackend.etag(content);
+    });
+  }
+
+  async removeObjectIf(objectName: string, etag: string): Promise<boolean> {
+    return await this.withObjectMutex(objectName, async () => {
+      const current = await this.readObject(objectName);
+      if (current?.etag !== etag) {
+        return false;
+      }
+
+      await this.removeObjects([objectName]);
+      return true;
+    });
+  }
+
+  /**
+   * Run a conditional operation on an object while holding the object's mutex
+   * The mutex is a directory (mkdir is atomic), so it also serializes worker processes sharing the root
+   */
+  private async withObjectMutex<T>(objectName: string, operation: () => Promise<T>): Promise<T> {
+    const mutexName = `${crypto.createHash('sha256').update(objectName).digest('hex')}.mutex`;
+    const mutexPath = path.join(this.rootDir, LocalBackend.TMP_DIRNAME, mutexName);
+    await fs.promises.mkdir(path.dirname(mutexPath), { recursive: true });
+
+    for (;;) {
+      try {
+        await fs.promises.mkdir(mutexPath);
+        break;
+      } catch (err: any) {
+        if (err.code !== 'EEXIST') {
+          throw err;
+        }
+      }
+
+      const stats = await fs.promises.stat(mutexPath).catch(() => null);
+      if (stats && Date.now() - stats.mtimeMs > LocalBackend.MUTEX_STALE_MS) {
+        await fs.promises.rm(mutexPath, { recursive: true, force: true });
+      } else {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    }
+
+    try {
+      return await operation();
+    } finally {
+      await fs.promises.rm(mutexPath, { recursive: true, force: true });
+    }
+  }
+
+  private static etag(content: Buffer): string {
+    return crypto.createHash('md5').update(content).digest('hex');
+  }
+
+  /**
+   * Write an object through a temporary file that is renamed into place
+   */
+  private async writeObject(objectName: string, write: (tmpPath: string) => Promise<void>): Promise<void> {
+    const filePath = this.objectPath(objectName);
+    const tmpDir = path.join(this.rootDir, LocalBackend.TMP_DIRNAME);
+    const tmpPath = path.join(tmpDir, uuidv4());
+
+    try {
+      await fs.promises.mkdir(tmpDir, { recursive: true });
+      await write(tmpPath);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.rename(tmpPath, filePath);
+    } finally {
+      await fs.promises.rm(tmpPath, { force: true });
+    }
+  }
+
+  /**
+   * Local path of an object (throws for names that would escape the root directory)
+   */
+  private objectPath(objectName: string): string {
+    const filePath = path.resolve(this.rootDir, objectName);
+    if (filePath !== this.rootDir && !filePath.startsWith(`${this.rootDir}${path.sep}`)) {
+      throw new Error(`Invalid object name: ${objectName}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Create the storage backend selected by SESSION_STORAGE_BACKEND
+ *   minio (or s3) - MinIO/S3 at MINIO_ENDPOINT
+ *   local         - files below SESSION_STORAGE_DIR
+ *   none          - no persistence (sessions can't be resumed)
+ * Defaults to minio when MINIO_ENDPOINT is set, none otherwise
+ * @returns The backend, or null for none
+ */
+export function createStorageBackend(): StorageBackend | null {
+  const backend = process.env.SESSION_STORAGE_BACKEND || (process.env.MINIO_ENDPOINT ? 'minio' : 'none');
+
+  switch (backend) {
+    case 'minio':
+    case 's3':
+      if (!process.env.MINIO_ENDPOINT) {
+        throw new Error(`SESSION_STORAGE_BACKEND=${backend} requires MINIO_ENDPOINT`);
+      }
+      return new MinioBackend(process.env.MINIO_ENDPOINT);
+    case 'local':
+      return new LocalBackend(process.env.SESSION_STORAGE_DIR || './session-data');
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unsupported SESSION_STORAGE_BACKEND: ${backend}`);
+  }
+}
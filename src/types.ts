@@ -8,10 +8,12 @@ export interface ExecuteRequest {
 
   // Optional: Session management
   resumeSessionId?: string;
+  resumeSnapshot?: number; // Resume from this snapshot instead of the latest (requires resumeSessionId)
 
   // Optional: GitHub integration
+  // When resuming, only the credentials are given (the repository is already in the session)
   github?: {
-    repoUrl: string;
+    repoUrl?: string; // Required for new sessions
     branch?: string;
     directory?: string;
     accessToken?: string;
@@ -33,6 +35,14 @@ export interface ExecuteRequest {
     environment?: string;
   };
 
+  // Optional: Session archive options
+  storage?: {
+    exclude?: string[]; // Gitignore-style patterns (relative to the session workspace) left out of the snapshot
+  };
+
+  // Optional: Run in the background and poll GET /jobs/:jobId instead of streaming (default: false)
+  async?: boolean;
+
   // Optional: Provider-specific options
   providerOptions?: {
     skipPermissions?: boolean;
@@ -45,9 +55,15 @@ export interface ExecuteRequest {
 export interface SSEEvent {
   type: string;
   timestamp: string;
+  seq?: number; // Monotonically increasing per session, sent as the SSE id
   [key: string]: any;
 }
 
+export interface QueuedEvent extends SSEEvent {
+  type: 'queued';
+  position: number; // 1-based position among jobs waiting on this worker
+}
+
 export interface ConnectedEvent extends SSEEvent {
   type: 'connected';
   sessionId: string;
@@ -79,6 +95,32 @@ export interface CompletedEvent extends SSEEvent {
   type: 'completed';
   sessionId: string;
   duration_ms: number;
+  snapshot?: number; // Snapshot the session was saved as
+}
+
+export interface CancelledEvent extends SSEEvent {
+  type: 'cancelled';
+  sessionId: string;
+  duration_ms: number;
+  snapshot?: number;
+}
+
+// Stage of an execution, reported in heartbeats
+export type ExecutionStage = 'preparing' | 'cloning' | 'executing' | 'committing' | 'uploading';
+
+export interface HeartbeatEvent extends SSEEvent {
+  type: 'heartbeat';
+  stage: ExecutionStage;
+  elapsed_ms: number;
+}
+
+// Bytes transferred while downloading or uploading the session (transient, not persisted)
+export interface StorageProgressEvent extends SSEEvent {
+  type: 'storage_progress';
+  direction: 'download' | 'upload';
+  bytes: number;
+  totalBytes?: number;
+  done: boolean;
 }
 
 export interface ErrorEvent extends SSEEvent {
@@ -130,6 +172,7 @@ export interface SessionMetadata {
   sessionName?: string; // Human-readable session name
   providerSessionId?: string; // Internal provider session ID (e.g., Claude Code's session_id)
   provider: string;
+  tenant?: string; // Owning tenant; sessions without one belong to the default (untenanted) namespace
   createdAt: string;
   updatedAt: string;
   github?: {
@@ -138,4 +181,51 @@ export interface SessionMetadata {
     branchName?: string; // Generated branch name (webedt/...)
     clonedPath: string;
   };
+  forkedFrom?: {
+    sessionId: string;
+    snapshot: number;
+  };
+  // Workspace paths left out of the last snapshot (.sessionignore / storage.exclude) - regenerate after resume
+  excludedPaths?: string[];
+  excludedPathsTruncated?: boolean; // More paths were excluded than listed
+}
+
+// How a session snapshot is stored: manifest + content-addressed blobs, or a single tarball
+export type StorageFormat = 'chunked' | 'tarball';
+
+// A saved version of a session in storage (one per upload)
+export interface SessionSnapshot {
+  snapshot: number; // 1, 2, 3... (0 = archive written before snapshots existed)
+  format?: StorageFormat;
+  createdAt: string;
+  size: number; // Tarball size, or total file size of a chunked snapshot, in bytes
+  userRequest?: string; // Request of the run that produced the snapshot
+  provider?: string;
+  parentSnapshot?: number; // Snapshot the run was resumed from
+  restoredFrom?: number; // Set when the snapshot was created by restoring an older one
+  exclude?: string[]; // storage.exclude patterns of the run (in addition to .sessionignore files)
+}
+
+// A session removed by garbage collection (or, in a dry run, due for removal)
+export interface CollectedSession {
+  sessionId: string;
+  tenant?: string;
+  reason: 'idle' | 'quota'; // Idle longer than the TTL, or oldest session of a tenant over its quota
+  bytes: number;
+  updatedAt?: string; // Last activity (metadata updatedAt, or the newest object's time)
+}
+
+// Result of a garbage collection run (POST /admin/gc and the background sweep)
+export interface GarbageCollectionReport {
+  dryRun: boolean;
+  startedAt: string;
+  durationMs: number;
+  idleDays: number;    // 0 = sessions never expire
+  maxTenantMB: number; // 0 = no quota
+  scannedSessions: number;
+  scannedBytes: number;
+  removed: CollectedSession[];
+  removedBytes: number;
+  skippedActive: number; // Sessions due for removal that were executing on this worker
+  failed: { sessionId: string; tenant?: string; error: string }[];
 }
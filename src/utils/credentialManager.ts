@@ -12,6 +12,16 @@ export class CredentialManager {
    * @param credentials - Credentials object to write
    */
   static writeCredentialFile(credentialPath: string, credentials: any): void {
+    // Write credentials as JSON
+    this.writeCredentialText(credentialPath, JSON.stringify(credentials, null, 2));
+  }
+
+  /**
+   * Write credentials in a provider's own text format (e.g. a dotenv file) with secure permissions
+   * @param credentialPath - Absolute path to credential file
+   * @param content - File content
+   */
+  static writeCredentialText(credentialPath: string, content: string): void {
     try {
       // Ensure directory exists
       const dir = path.dirname(credentialPath);
@@ -19,12 +29,7 @@ export class CredentialManager {
         fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
       }
 
-      // Write credentials as JSON
-      fs.writeFileSync(
-        credentialPath,
-        JSON.stringify(credentials, null, 2),
-        { mode: 0o600 }
-      );
+      fs.writeFileSync(credentialPath, content, { mode: 0o600 });
 
       console.log(`[CredentialManager] Credentials written to: ${credentialPath}`);
     } catch (error) {
@@ -56,26 +61,29 @@ export class CredentialManager {
 
   /**
    * Get credential path for Claude Agent SDK
+   * @param homeDir - Home directory to use (defaults to the process home)
    * @returns Absolute path to ~/.claude/.credentials.json
    */
-  static getClaudeCredentialPath(): string {
-    return path.join(os.homedir(), '.claude', '.credentials.json');
+  static getClaudeCredentialPath(homeDir: string = os.homedir()): string {
+    return path.join(homeDir, '.claude', '.credentials.json');
   }
 
   /**
    * Get credential path for Codex SDK
+   * @param homeDir - Home directory to use (defaults to the process home)
    * @returns Absolute path to ~/.codex/auth.json
    */
-  static getCodexCredentialPath(): string {
-    return path.join(os.homedir(), '.codex', 'auth.json');
+  static getCodexCredentialPath(homeDir: string = os.homedir()): string {
+    return path.join(homeDir, '.codex', 'auth.json');
   }
 
   /**
    * Write Claude Agent SDK credentials
    * @param authentication - Anthropic API key or OAuth JSON string
+   * @param homeDir - Home directory to write into (defaults to the process home)
    */
-  static writeClaudeCredentials(authentication: string): void {
-    const credentialPath = this.getClaudeCredentialPath();
+  static writeClaudeCredentials(authentication: string, homeDir?: string): void {
+    const credentialPath = this.getClaudeCredentialPath(homeDir);
 
     // Parse authentication if it's JSON, otherwise treat as plain API key
     let credentials: any;
@@ -94,11 +102,12 @@ export class CredentialManager {
   }
 
   /**
-   * Write Codex SDK credentials
-   * @param authentication - Codex authentication token or JSON structure
+   * Write Codex CLI credentials
+   * @param authentication - OpenAI API key, or the JSON content of a Codex auth.json (e.g. ChatGPT login tokens)
+   * @param homeDir - Home directory to write into (defaults to the process home)
    */
-  static writeCodexCredentials(authentication: string): void {
-    const credentialPath = this.getCodexCredentialPath();
+  static writeCodexCredentials(authentication: string, homeDir?: string): void {
+    const credentialPath = this.getCodexCredentialPath(homeDir);
 
     // Parse authentication if it's JSON, otherwise treat as plain auth token
     let credentials: any;
@@ -106,10 +115,9 @@ export class CredentialManager {
       credentials = JSON.parse(authentication);
       // If it's valid JSON, write it as-is (could be OAuth structure or other format)
     } catch {
-      // Not JSON, treat as plain auth token
+      // Not JSON, treat as plain API key - in the auth.json format the Codex CLI reads
       credentials = {
-        authToken: authentication,
-        createdAt: new Date().toISOString()
+        OPENAI_API_KEY: authentication
       };
     }
 
@@ -132,18 +140,19 @@ export class CredentialManager {
   }
 
   /**
-   * Read Codex SDK credentials
-   * @returns Auth token
+   * Read Codex CLI credentials
+   * @returns API key (authToken of files written by earlier versions)
    */
   static readCodexCredentials(): string {
     const credentialPath = this.getCodexCredentialPath();
     const credentials = this.readCredentialFile(credentialPath);
+    const apiKey = credentials.OPENAI_API_KEY || credentials.authToken;
 
-    if (!credentials.authToken) {
-      throw new Error('Invalid Codex credentials: missing authToken');
+    if (!apiKey) {
+      throw new Error('Invalid Codex credentials: missing OPENAI_API_KEY');
     }
 
-    return credentials.authToken;
+    return apiKey;
   }
 
   /**
@@ -0,0 +1,72 @@
+import { Response } from 'express';
+import { SSEEvent } from '../types';
+
+/**
+ * Destination for execution events
+ * Decouples the orchestrator from the transport (live SSE response or buffered job)
+ */
+export interface EventSink {
+  send(event: SSEEvent): void;
+  end(): void;
+  // Optional: transient keep-alive events (sinks without a live connection ignore them)
+  sendHeartbeat?(event: SSEEvent): void;
+}
+
+/**
+ * Writes events to an Express response as an SSE stream
+ */
+export class SSEResponseSink implements EventSink {
+  private res: Response;
+
+  constructor(res: Response) {
+    this.res = res;
+  }
+
+  send(event: SSEEvent): void {
+    // The id lets clients resume with Last-Event-ID after reconnecting
+    const idLine = event.seq !== undefined ? `id: ${event.seq}\n` : '';
+    this.res.write(`${idLine}data: ${JSON.stringify(event)}\n\n`);
+  }
+
+  sendHeartbeat(event: SSEEvent): void {
+    this.send(event);
+  }
+
+  end(): void {
+    this.res.end();
+  }
+}
+
+/**
+ * Buffers events in memory so they can be polled later
+ */
+export class BufferedEventSink implements EventSink {
+  private events: SSEEvent[] = [];
+  private ended = false;
+
+  send(event: SSEEvent): void {
+    this.events.push(event);
+  }
+
+  end(): void {
+    this.ended = true;
+  }
+
+  /**
+   * Get buffered events starting at the given offset
+   */
+  getEvents(offset: number = 0): SSEEvent[] {
+    return this.events.slice(offset);
+  }
+
+  /**
+   * Total number of buffered events
+   */
+  getEventCount(): number {
+    return this.events.length;
+  }
+
+  isEnded(): boolean {
+    return this.ended;
+  }
+}
@@ -0,0 +1,90 @@
+import { spawn } from 'child_process';
+import * as readline from 'readline';
+
+export interface RunProcessOptions {
+  cwd: string;
+  env?: NodeJS.ProcessEnv;
+  input?: string;                         // Written to stdin, which is then closed
+  abortSignal?: AbortSignal;              // Stops the process (SIGTERM, then SIGKILL)
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+}
+
+export interface ProcessResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  aborted: boolean;
+  stderrTail: string[]; // Last lines of stderr, for error messages
+}
+
+// Grace period between SIGTERM and SIGKILL when an aborted process doesn't exit
+const KILL_GRACE_MS = 5000;
+const STDERR_TAIL_LINES = 20;
+
+/**
+ * Run a command-line tool (e.g. an agent CLI) and stream its output line by line
+ * Resolves when the process exits, whatever its exit code; rejects only if it can't be started
+ */
+export function runProcess(command: string, args: string[], options: RunProcessOptions): Promise<ProcessResult> {
+  const { cwd, env, input, abortSignal, onStdoutLine, onStderrLine } = options;
+
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      resolve({ exitCode: null, signal: null, aborted: true, stderrTail: [] });
+      return;
+    }
+
+    const child = spawn(command, args, {
+      cwd,
+      env: env ?? process.env,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Own process group, so stopping it also stops the commands it runs
+      detached: true
+    });
+
+    const stderrTail: string[] = [];
+    let aborted = false;
+    let killTimer: NodeJS.Timeout | undefined;
+
+    const kill = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-child.pid!, signal);
+      } catch {
+        // Already exited
+      }
+    };
+    const onAbort = () => {
+      aborted = true;
+      kill('SIGTERM');
+      killTimer = setTimeout(() => kill('SIGKILL'), KILL_GRACE_MS);
+    };
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+    readline.createInterface({ input: child.stdout!, crlfDelay: Infinity })
+      .on('line', (line) => onStdoutLine?.(line));
+    readline.createInterface({ input: child.stderr!, crlfDelay: Infinity })
+      .on('line', (line) => {
+        stderrTail.push(line);
+        if (stderrTail.length > STDERR_TAIL_LINES) {
+          stderrTail.shift();
+        }
+        onStderrLine?.(line);
+      });
+
+    // A process that exits without reading its input closes stdin early - not an error
+    child.stdin!.on('error', () => {});
+    child.stdin!.end(input);
+
+    child.once('error', (error: NodeJS.ErrnoException) => {
+      abortSignal?.removeEventListener('abort', onAbort);
+      reject(error.code === 'ENOENT' ? new Error(`Command not found: ${command}`) : error);
+    });
+
+    // 'close' (not 'exit') fires after stdout and stderr are fully read
+    child.once('close', (exitCode, signal) => {
+      clearTimeout(killTimer);
+      abortSignal?.removeEventListener('abort', onAbort);
+      resolve({ exitCode, signal, aborted, stderrTail });
+    });
+  });
+}
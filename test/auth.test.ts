@@ -0,0 +1,161 @@
+import { test, before, after, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { createAuthMiddleware } from '../src/middleware/auth';
+import { APIError } from '../src/types';
+
+// The auth middleware in front of an app that reports the authenticated caller
+
+let tmpDir: string;
+let servers: { close(): void }[] = [];
+let jwtKey: crypto.KeyObject;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+  fs.writeFileSync(path.join(tmpDir, 'keys.json'), JSON.stringify({
+    keys: [
+      { id: 'ci', key: 'ci-secret', permissions: ['delete_sessions'], tenant: 'acme' },
+      { id: 'admin', key: 'admin-secret', permissions: ['delete_sessions', 'run_gc'] },
+      { id: 'bad-tenant', key: 'bad-tenant-secret', tenant: '../other' }
+    ]
+  }));
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  jwtKey = privateKey;
+  fs.writeFileSync(path.join(tmpDir, 'jwks.json'), JSON.stringify({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }]
+  }));
+});
+
+afterEach(() => {
+  for (const server of servers) {
+    server.close();
+  }
+  servers = [];
+  delete process.env.AUTH_MODE;
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/**
+ * Start an app with the auth middleware for the given AUTH_MODE
+ * @returns Base URL of the app
+ */
+async function startApp(mode?: string): Promise<string> {
+  if (mode) {
+    process.env.AUTH_MODE = mode;
+  }
+  process.env.AUTH_KEYS_FILE = path.join(tmpDir, 'keys.json');
+  process.env.AUTH_JWKS_FILE = path.join(tmpDir, 'jwks.json');
+  process.env.AUTH_JWT_AUDIENCE = 'worker';
+
+  const app = express();
+  app.use(express.json({
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    }
+  }));
+  app.use(createAuthMiddleware());
+  app.all('/whoami', (req: Request, res: Response) => {
+    res.json({ ...req.auth, permissions: Array.from(req.auth!.permissions).sort() });
+  });
+
+  const server = app.listen(0, '127.0.0.1');
+  servers.push(server);
+  await new Promise(resolve => server.once('listening', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function sign(secret: string, timestamp: number, method: string, url: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${method}.${url}.${body}`).digest('hex');
+}
+
+function createJwt(claims: Record<string, unknown>, key: crypto.KeyObject = jwtKey): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'EdDSA', kid: 'key-1' })}.${encode(claims)}`;
+  return `${unsigned}.${crypto.sign(null, Buffer.from(unsigned), key).toString('base64url')}`;
+}
+
+test('without AUTH_MODE every caller is anonymous with all permissions', async () => {
+  const url = await startApp();
+  const response = await fetch(`${url}/whoami`);
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), {
+    principal: 'anonymous',
+    method: 'none',
+    permissions: ['delete_sessions', 'run_gc', 'use_env_credentials']
+  });
+});
+
+test('API keys carry their permissions and tenant', async () => {
+  const url = await startApp('apikey');
+
+  const response = await fetch(`${url}/whoami`, { headers: { 'X-API-Key': 'ci-secret' } });
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), {
+    principal: 'ci',
+    method: 'apikey',
+    permissions: ['delete_sessions'],
+    tenant: 'acme'
+  });
+
+  assert.equal((await fetch(`${url}/whoami`, { headers: { 'X-API-Key': 'wrong' } })).status, 401);
+  assert.equal((await fetch(`${url}/whoami`)).status, 401);
+});
+
+test('keys with an invalid tenant are rejected', async () => {
+  const url = await startApp('apikey');
+  const response = await fetch(`${url}/whoami`, { headers: { 'X-API-Key': 'bad-tenant-secret' } });
+  assert.equal(response.status, 401);
+  assert.match(((await response.json()) as APIError).message, /Invalid tenant/);
+});
+
+test('signed requests cover the method, URL and body and expire', async () => {
+  const url = await startApp('hmac');
+  const body = JSON.stringify({ userRequest: 'hi' });
+  const now = Math.floor(Date.now() / 1000);
+  const post = (timestamp: number, signature: string, content: string = body) => fetch(`${url}/whoami?x=1`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Key-Id': 'admin',
+      'X-Timestamp': String(timestamp),
+      'X-Signature': signature
+    },
+    body: content
+  });
+
+  const response = await post(now, sign('admin-secret', now, 'POST', '/whoami?x=1', body));
+  assert.equal(response.status, 200);
+  assert.equal(((await response.json()) as { principal: string }).principal, 'admin');
+
+  assert.equal((await post(now, sign('admin-secret', now, 'POST', '/whoami?x=1', body), '{"userRequest":"bye"}')).status, 401);
+  assert.equal((await post(now, sign('admin-secret', now, 'GET', '/whoami?x=1', body))).status, 401);
+  assert.equal((await post(now, sign('ci-secret', now, 'POST', '/whoami?x=1', body))).status, 401);
+  assert.equal((await post(now - 600, sign('admin-secret', now - 600, 'POST', '/whoami?x=1', body))).status, 401);
+});
+
+test('JWTs are verified against the JWKS and map claims to permissions and tenant', async () => {
+  const url = await startApp('apikey,jwt');
+  const now = Math.floor(Date.now() / 1000);
+  const get = (token: string) => fetch(`${url}/whoami`, { headers: { Authorization: `Bearer ${token}` } });
+
+  const response = await get(createJwt({ sub: 'user-1', aud: 'worker', exp: now + 60, tenant: 'acme', permissions: ['run_gc', 'root'] }));
+  assert.equal(response.status, 200);
+  assert.deepEqual(await response.json(), { principal: 'user-1', method: 'jwt', permissions: ['run_gc'], tenant: 'acme' });
+
+  assert.equal((await get(createJwt({ sub: 'user-1', aud: 'worker', exp: now - 1 }))).status, 401);
+  assert.equal((await get(createJwt({ sub: 'user-1', aud: 'other', exp: now + 60 }))).status, 401);
+  assert.equal((await get(createJwt({ sub: 'user-1', aud: 'worker', tenant: 7 }))).status, 401);
+  assert.equal((await get(createJwt({ sub: 'user-1', aud: 'worker' }, crypto.generateKeyPairSync('ed25519').privateKey))).status, 401);
+
+  // Other configured modes still work
+  assert.equal((await fetch(`${url}/whoami`, { headers: { 'X-API-Key': 'admin-secret' } })).status, 200);
+});
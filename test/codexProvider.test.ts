@@ -0,0 +1,173 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodexProvider } from '../src/providers/CodexProvider';
+
+// A fake `codex` binary: records its arguments and prints the events it is given (FAKE_CODEX_EVENTS)
+const FAKE_CODEX = `#!/usr/bin/env node
+const fs = require('fs');
+fs.writeFileSync(process.env.FAKE_CODEX_ARGS, JSON.stringify({ args: process.argv.slice(2), codexHome: process.env.CODEX_HOME }));
+for (const event of JSON.parse(process.env.FAKE_CODEX_EVENTS || '[]')) {
+  console.log(typeof event === 'string' ? event : JSON.stringify(event));
+}
+if (process.env.FAKE_CODEX_STDERR) {
+  console.error(process.env.FAKE_CODEX_STDERR);
+}
+process.exit(Number(process.env.FAKE_CODEX_EXIT || 0));
+`;
+
+let tmpDir: string;
+let argsFile: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'codex-provider-test-'));
+  argsFile = path.join(tmpDir, 'args.json');
+  process.env.CODEX_CLI_PATH = path.join(tmpDir, 'codex');
+  process.env.FAKE_CODEX_ARGS = argsFile;
+  fs.writeFileSync(process.env.CODEX_CLI_PATH, FAKE_CODEX, { mode: 0o755 });
+  fs.mkdirSync(path.join(tmpDir, 'workspace'));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/**
+ * Run the provider against the fake CLI
+ * @returns The forwarded messages and the error the run failed with (if any)
+ */
+async function runCodex(
+  fake: { events: any[]; exitCode?: number; stderr?: string },
+  options: { resumeSessionId?: string; model?: string } = {}
+): Promise<{ messages: any[]; error?: Error }> {
+  process.env.FAKE_CODEX_EVENTS = JSON.stringify(fake.events);
+  process.env.FAKE_CODEX_EXIT = String(fake.exitCode ?? 0);
+  process.env.FAKE_CODEX_STDERR = fake.stderr ?? '';
+
+  const workspace = path.join(tmpDir, 'workspace');
+  const provider = new CodexProvider('sk-test', workspace, undefined, path.join(tmpDir, 'home'));
+  const messages: any[] = [];
+  try {
+    await provider.execute(
+      'Fix the bug',
+      { authentication: 'sk-test', workspace, resumeSessionId: options.resumeSessionId, providerOptions: { model: options.model } },
+      event => messages.push(event.data)
+    );
+    return { messages };
+  } catch (error) {
+    return { messages, error: error as Error };
+  }
+}
+
+function recordedArgs(): { args: string[]; codexHome: string } {
+  return JSON.parse(fs.readFileSync(argsFile, 'utf-8'));
+}
+
+test('Codex events are forwarded as Claude Code messages', async () => {
+  const { messages, error } = await runCodex({
+    events: [
+      { type: 'thread.started', thread_id: 'thread-1' },
+      { type: 'turn.started' },
+      { type: 'item.completed', item: { id: 'i0', type: 'reasoning', text: 'Looking at the tests' } },
+      { type: 'item.started', item: { id: 'i1', type: 'command_execution', command: 'npm test' } },
+      { type: 'item.completed', item: { id: 'i1', type: 'command_execution', command: 'npm test', aggregated_output: '1 failing', exit_code: 1 } },
+      { type: 'item.completed', item: { id: 'i2', type: 'file_change', status: 'completed', changes: [{ kind: 'update', path: 'src/a.ts' }] } },
+      { type: 'item.completed', item: { id: 'i3', type: 'agent_message', text: 'Fixed it' } },
+      'not json - logged only',
+      { type: 'turn.completed', usage: { input_tokens: 10, output_tokens: 5 } }
+    ]
+  }, { model: 'gpt-5-codex' });
+
+  assert.equal(error, undefined);
+  assert.deepEqual(messages.map(m => [m.type, m.subtype ?? m.message?.content[0].type]), [
+    ['system', 'init'],
+    ['assistant', 'thinking'],
+    ['assistant', 'tool_use'],
+    ['user', 'tool_result'],
+    ['assistant', 'tool_use'],
+    ['user', 'tool_result'],
+    ['assistant', 'text'],
+    ['result', 'success']
+  ]);
+  assert.equal(messages[0].session_id, 'thread-1');
+  assert.deepEqual(messages[2].message.content[0], { type: 'tool_use', id: 'i1', name: 'Bash', input: { command: 'npm test' } });
+  assert.deepEqual(messages[3].message.content[0], { type: 'tool_result', tool_use_id: 'i1', content: '1 failing', is_error: true });
+  assert.equal(messages[4].message.content[0].name, 'Edit');
+  assert.equal(messages[5].message.content[0].content, 'update src/a.ts');
+  assert.equal(messages[6].message.content[0].text, 'Fixed it');
+  assert.deepEqual(messages[7].usage, { input_tokens: 10, output_tokens: 5 });
+  assert.ok(messages.every(m => m.session_id === 'thread-1'));
+
+  const { args, codexHome } = recordedArgs();
+  assert.deepEqual(args.slice(0, 2), ['exec', '--json']);
+  assert.ok(args.includes('--model') && args[args.indexOf('--model') + 1] === 'gpt-5-codex');
+  assert.ok(!args.includes('resume'));
+  assert.deepEqual(args.slice(-2), ['--', 'Fix the bug']);
+  assert.equal(codexHome, path.join(tmpDir, 'home', '.codex'));
+});
+
+test('a failed turn fails the run even if the CLI exits with 0', async () => {
+  const { messages, error } = await runCodex({
+    events: [
+      { type: 'thread.started', thread_id: 'thread-2' },
+      { type: 'turn.failed', error: { message: 'model overloaded' } }
+    ]
+  });
+
+  assert.match(error?.message ?? '', /model overloaded/);
+  assert.deepEqual(messages[messages.length - 1], {
+    type: 'result',
+    subtype: 'error_during_execution',
+    is_error: true,
+    duration_ms: messages[messages.length - 1].duration_ms,
+    error_message: 'model overloaded',
+    session_id: 'thread-2'
+  });
+
+});
+
+test('an error the CLI recovers from doesn\'t fail the run', async () => {
+  const { messages, error } = await runCodex({
+    events: [
+      { type: 'thread.started', thread_id: 'thread-3' },
+      { type: 'turn.started' },
+      { type: 'error', message: 'stream disconnected before completion; retrying 1/5' },
+      { type: 'item.completed', item: { id: 'i1', type: 'agent_message', text: 'Done' } },
+      { type: 'turn.completed', usage: {} }
+    ]
+  });
+
+  assert.equal(error, undefined);
+  assert.deepEqual(messages[1], {
+    type: 'system',
+    subtype: 'error',
+    message: 'stream disconnected before completion; retrying 1/5',
+    session_id: 'thread-3'
+  });
+  // A single, final result
+  assert.deepEqual(messages.filter(m => m.type === 'result').map(m => [m.subtype, m.is_error]), [['success', false]]);
+  assert.equal(messages[messages.length - 1].type, 'result');
+});
+
+test('a non-zero exit fails the run with the CLI\'s stderr', async () => {
+  const { error } = await runCodex({ events: [], exitCode: 2, stderr: 'Not logged in' });
+  assert.match(error?.message ?? '', /exit code 2.*Not logged in/s);
+});
+
+test('resuming continues the Codex thread', async () => {
+  const { messages, error } = await runCodex({
+    events: [
+      { type: 'turn.started' },
+      { type: 'item.completed', item: { id: 'i1', type: 'agent_message', text: 'Continuing' } },
+      { type: 'turn.completed', usage: {} }
+    ]
+  }, { resumeSessionId: 'thread-1' });
+
+  assert.equal(error, undefined);
+  const { args } = recordedArgs();
+  assert.deepEqual(args.slice(args.indexOf('resume'), args.indexOf('resume') + 2), ['resume', 'thread-1']);
+  // No thread.started on resume - messages carry the resumed thread ID
+  assert.ok(messages.every(m => m.session_id === 'thread-1'));
+});
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JobQueue } from '../src/jobs/jobQueue';
+
+/**
+ * A job that runs until finish() is called, recording the positions reported to it
+ */
+function createJob(id: string, started: string[]) {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => finish = resolve);
+  const positions: number[] = [];
+  return {
+    job: {
+      id,
+      run: async () => {
+        started.push(id);
+        await done;
+      },
+      onPositionChange: (position: number) => positions.push(position)
+    },
+    positions,
+    finish
+  };
+}
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+test('jobs beyond the concurrency wait in order and are rejected once the queue is full', async () => {
+  const queue = new JobQueue(1, 2);
+  const started: string[] = [];
+  const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(id => createJob(id, started));
+
+  assert.equal(queue.enqueue(a.job), true);
+  assert.equal(queue.enqueue(b.job), true);
+  assert.equal(queue.enqueue(c.job), true);
+  assert.equal(queue.hasCapacity(), false);
+  assert.equal(queue.enqueue(d.job), false);
+  assert.deepEqual(started, ['a']);
+  assert.deepEqual(queue.getStats(), { running: 1, queued: 2, concurrency: 1, maxQueued: 2 });
+  assert.deepEqual(b.positions, [1]);
+  assert.deepEqual(c.positions, [2]);
+
+  a.finish();
+  await flush();
+  assert.deepEqual(started, ['a', 'b']);
+  assert.deepEqual(c.positions, [2, 1]);
+
+  b.finish();
+  await flush();
+  c.finish();
+  await flush();
+  assert.deepEqual(started, ['a', 'b', 'c']);
+  assert.deepEqual(queue.getStats(), { running: 0, queued: 0, concurrency: 1, maxQueued: 2 });
+});
+
+test('a waiting job can be removed, a running one can\'t', async () => {
+  const queue = new JobQueue(1, 5);
+  const started: string[] = [];
+  const [a, b, c] = ['a', 'b', 'c'].map(id => createJob(id, started));
+  queue.enqueue(a.job);
+  queue.enqueue(b.job);
+  queue.enqueue(c.job);
+
+  assert.equal(queue.remove('a'), false);
+  assert.equal(queue.remove('b'), true);
+  assert.equal(queue.remove('b'), false);
+  assert.deepEqual(c.positions, [2, 1]);
+
+  a.finish();
+  await flush();
+  assert.deepEqual(started, ['a', 'c']);
+  c.finish();
+});
+
+test('a failing job frees its slot', async () => {
+  const queue = new JobQueue(1, 1);
+  const started: string[] = [];
+  const next = createJob('next', started);
+  queue.enqueue({ id: 'failing', run: async () => { throw new Error('boom'); } });
+  queue.enqueue(next.job);
+
+  await flush();
+  assert.deepEqual(started, ['next']);
+  next.finish();
+});
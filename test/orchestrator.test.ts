@@ -0,0 +1,207 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit from 'simple-git';
+import { Orchestrator } from '../src/orchestrator';
+import { SessionStorage } from '../src/storage/sessionStorage';
+import { SessionMetadata, SSEEvent } from '../src/types';
+
+// Runs on the local storage backend with command providers that print the repository's remote URL
+// or echo the prompt after a second
+
+let tmpDir: string;
+
+before(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-test-'));
+  process.env.SESSION_STORAGE_BACKEND = 'local';
+  process.env.SESSION_STORAGE_DIR = path.join(tmpDir, 'storage');
+  process.env.COMMAND_PROVIDERS_FILE = path.join(tmpDir, 'providers.json');
+  fs.writeFileSync(process.env.COMMAND_PROVIDERS_FILE, JSON.stringify({
+    providers: [
+      { name: 'remote-url', command: 'git', args: ['remote', 'get-url', 'origin'] },
+      { name: 'slow-echo', command: 'sh', args: ['-c', 'echo started; sleep 1; echo "$0"', '{prompt}'] }
+    ]
+  }));
+});
+
+after(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/**
+ * Store a GitHub session whose clone has a token-less remote (as uploaded sessions have)
+ */
+async function storeGitHubSession(sessionId: string): Promise<void> {
+  const sessionRoot = path.join(tmpDir, 'stored');
+  const repoDir = path.join(sessionRoot, 'repo');
+  fs.mkdirSync(repoDir, { recursive: true });
+  await simpleGit(repoDir).init().addRemote('origin', 'https://github.com/user/repo.git');
+
+  const metadata: SessionMetadata = {
+    sessionId,
+    provider: 'remote-url',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    github: { repoUrl: 'https://github.com/user/repo.git', branch: 'main', clonedPath: 'repo' }
+  };
+
+  const storage = new SessionStorage([]);
+  await storage.initialize();
+  storage.saveMetadata(sessionId, sessionRoot, metadata);
+  await storage.uploadSession(sessionId, sessionRoot);
+  fs.rmSync(sessionRoot, { recursive: true, force: true });
+}
+
+test('resuming a GitHub session puts the request\'s access token into the remote', async () => {
+  await storeGitHubSession('github-session');
+
+  const orchestrator = new Orchestrator(path.join(tmpDir, 'work'));
+  await orchestrator.initialize();
+  const events: SSEEvent[] = [];
+  await orchestrator.execute(
+    {
+      userRequest: 'Show the remote',
+      codingAssistantProvider: 'remote-url',
+      codingAssistantAuthentication: 'token',
+      resumeSessionId: 'github-session',
+      github: { accessToken: 'ghs_resume' },
+      autoCommit: false
+    },
+    { send: event => events.push(event), end: () => {} }
+  );
+
+  assert.ok(!events.some(event => event.type === 'error'), JSON.stringify(events));
+  assert.match(JSON.stringify(events), /https:\/\/[^"]*ghs_resume[^"]*@github\.com\/user\/repo\.git/);
+});
+
+test('a repository can\'t be given when resuming', async () => {
+  const orchestrator = new Orchestrator(path.join(tmpDir, 'work'));
+  const events: SSEEvent[] = [];
+  await assert.rejects(orchestrator.execute(
+    {
+      userRequest: 'Clone again',
+      codingAssistantProvider: 'remote-url',
+      codingAssistantAuthentication: 'token',
+      resumeSessionId: 'github-session',
+      github: { repoUrl: 'https://github.com/user/other.git', accessToken: 'ghs_resume' }
+    },
+    { send: event => events.push(event), end: () => {} }
+  ), /Cannot provide both "github.repoUrl" and "resumeSessionId"/);
+});
+
+test('a locked session can\'t be resumed or forked', async () => {
+  await storeGitHubSession('locked-session');
+
+  const orchestrator = new Orchestrator(path.join(tmpDir, 'work'));
+  await orchestrator.initialize();
+  const lock = await orchestrator.lockSession('locked-session');
+
+  const events: SSEEvent[] = [];
+  await assert.rejects(orchestrator.execute(
+    {
+      userRequest: 'Show the remote',
+      codingAssistantProvider: 'remote-url',
+      codingAssistantAuthentication: 'token',
+      resumeSessionId: 'locked-session',
+      autoCommit: false
+    },
+    { send: event => events.push(event), end: () => {} }
+  ), /Session is locked/);
+  assert.deepEqual(events.map(event => event.type), ['error']);
+  await assert.rejects(orchestrator.forkSession('locked-session'), /Session is locked/);
+
+  await lock!.release();
+  const fork = await orchestrator.forkSession('locked-session');
+  assert.equal(fork?.forkedFrom?.sessionId, 'locked-session');
+});
+
+test('stream events are numbered across runs and replayed to re-attached clients after Last-Event-ID', async () => {
+  const orchestrator = new Orchestrator(path.join(tmpDir, 'work'));
+  await orchestrator.initialize();
+  const request = {
+    userRequest: 'first',
+    codingAssistantProvider: 'slow-echo',
+    codingAssistantAuthentication: 'token',
+    autoCommit: false
+  };
+  // Transient events (storage progress, heartbeats) carry no seq
+  const seqs = (events: SSEEvent[]) => events.filter(event => event.seq !== undefined).map(event => event.seq!);
+
+  const first: SSEEvent[] = [];
+  await orchestrator.execute(request, { send: event => first.push(event), end: () => {} });
+  const firstCount = seqs(first).length;
+  assert.deepEqual(seqs(first), Array.from({ length: firstCount }, (_, index) => index + 1));
+  const sessionId = first.find(event => event.type === 'connected')!.sessionId as string;
+
+  // A resumed run continues after the first run's last event (completed, which isn't in the stored log);
+  // a client re-attaching mid-run gets what it missed, then live events
+  const second: SSEEvent[] = [];
+  const running = orchestrator.execute(
+    { ...request, userRequest: 'second', resumeSessionId: sessionId },
+    { send: event => second.push(event), end: () => {} }
+  );
+  while (seqs(second).length < 3) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  const attached: SSEEvent[] = [];
+  const lastEventId = seqs(second)[1];
+  const detach = orchestrator.attachToSession(sessionId, { send: event => attached.push(event), end: () => {} }, lastEventId);
+  assert.ok(detach);
+  await running;
+  detach();
+
+  const secondSeqs = seqs(second);
+  assert.deepEqual(secondSeqs, Array.from({ length: secondSeqs.length }, (_, index) => firstCount + index + 1));
+  assert.deepEqual(seqs(attached), secondSeqs.slice(2));
+  assert.match(JSON.stringify(attached), /second/);
+  assert.equal(orchestrator.attachToSession(sessionId, { send: () => {}, end: () => {} }), null);
+
+  // The stored log keeps both runs
+  const storage = new SessionStorage([]);
+  await storage.initialize();
+  const stored = await storage.getStoredStreamEvents(sessionId);
+  assert.deepEqual(stored?.map(event => event.seq), [...seqs(first).slice(0, -1), ...secondSeqs.slice(0, -1)]);
+});
+
+test('forking copies a snapshot into a new session with fresh metadata and no stream history', async () => {
+  const storage = new SessionStorage([]);
+  await storage.initialize();
+  const sourceRoot = path.join(tmpDir, 'fork-source');
+  fs.mkdirSync(path.join(sourceRoot, 'repo'), { recursive: true });
+  fs.writeFileSync(path.join(sourceRoot, 'repo', 'notes.md'), 'first\n');
+  storage.saveMetadata('fork-source', sourceRoot, {
+    sessionId: 'fork-source',
+    sessionName: 'notes',
+    providerSessionId: 'provider-1',
+    provider: 'slow-echo',
+    tenant: 'acme',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString()
+  });
+  storage.appendStreamEvent('fork-source', sourceRoot, { type: 'connected', seq: 1, timestamp: new Date().toISOString() });
+  await storage.uploadSession('fork-source', sourceRoot, 'acme');
+  fs.writeFileSync(path.join(sourceRoot, 'repo', 'notes.md'), 'second\n');
+  await storage.uploadSession('fork-source', sourceRoot, 'acme');
+
+  const orchestrator = new Orchestrator(path.join(tmpDir, 'work'));
+  await orchestrator.initialize();
+  const fork = await orchestrator.forkSession('fork-source', 'acme', 1);
+  assert.ok(fork);
+  assert.notEqual(fork.sessionId, 'fork-source');
+  assert.equal(fork.tenant, 'acme');
+  assert.equal(fork.providerSessionId, 'provider-1');
+  assert.deepEqual(fork.forkedFrom, { sessionId: 'fork-source', snapshot: 1 });
+
+  const target = path.join(tmpDir, 'fork-target');
+  await storage.downloadSession(fork.sessionId, target, 'acme');
+  assert.equal(fs.readFileSync(path.join(target, 'repo', 'notes.md'), 'utf-8'), 'first\n');
+  assert.deepEqual(await storage.getStoredStreamEvents(fork.sessionId, 'acme'), []);
+  assert.equal((await storage.getStoredMetadata('fork-source', 'acme'))?.forkedFrom, undefined);
+
+  // Sessions of other tenants (and missing ones) can't be forked
+  assert.equal(await orchestrator.forkSession('fork-source', 'other'), null);
+  assert.equal(await orchestrator.forkSession('fork-source'), null);
+  assert.equal(await orchestrator.forkSession('missing', 'acme'), null);
+});
@@ -0,0 +1,56 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProviderRegistry } from '../src/providers/ProviderRegistry';
+
+let pluginsDir: string;
+
+before(() => {
+  pluginsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'provider-plugins-test-'));
+  const provider = (name: string, stateDir?: string) => `{
+    name: '${name}',
+    capabilities: { resume: false, models: false, skipPermissions: false },
+    ${stateDir ? `stateDir: { name: '${stateDir}' },` : ''}
+    create: () => { throw new Error('not used'); }
+  }`;
+  fs.writeFileSync(path.join(pluginsDir, 'good.js'), `exports.register = (registry) => registry.register(${provider('good', '.good')});`);
+  // Registers one provider, then fails
+  fs.writeFileSync(path.join(pluginsDir, 'broken.js'), `exports.register = (registry) => {
+    registry.register(${provider('half', '.half')});
+    throw new Error('missing configuration');
+  };`);
+  fs.writeFileSync(path.join(pluginsDir, 'conflict.js'), `exports.register = (registry) => {
+    registry.register(${provider('first')});
+    registry.register(${provider('good')});
+  };`);
+});
+
+after(() => {
+  fs.rmSync(pluginsDir, { recursive: true, force: true });
+});
+
+test('plugins register their providers', () => {
+  const registry = new ProviderRegistry();
+  registry.loadPlugins([path.join(pluginsDir, 'good.js')]);
+  assert.deepEqual(registry.list().map(r => r.name), ['good']);
+  assert.deepEqual(registry.getStateDirs(), [{ name: '.good' }]);
+});
+
+test('a plugin that fails to register adds none of its providers', () => {
+  const registry = new ProviderRegistry();
+  registry.loadPlugins([path.join(pluginsDir, 'good.js')]);
+
+  for (const plugin of ['broken.js', 'conflict.js']) {
+    const specifier = path.join(pluginsDir, plugin);
+    assert.throws(() => registry.loadPlugins([specifier]), (error: Error) => {
+      assert.ok(error.message.startsWith(`Failed to register provider plugin ${specifier}: `), error.message);
+      return true;
+    });
+  }
+
+  assert.deepEqual(registry.list().map(r => r.name), ['good']);
+  assert.deepEqual(registry.getNames(), ['good']);
+  assert.deepEqual(registry.getStateDirs(), [{ name: '.good' }]);
+});
@@ -0,0 +1,107 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { SessionEncryption } from '../src/storage/sessionEncryption';
+import { SessionStorage } from '../src/storage/sessionStorage';
+
+const KEY = crypto.randomBytes(32).toString('base64');
+
+let tmpDir: string;
+let storageDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-encryption-test-'));
+  storageDir = path.join(tmpDir, 'storage');
+  process.env.SESSION_STORAGE_BACKEND = 'local';
+  process.env.SESSION_STORAGE_DIR = storageDir;
+  delete process.env.SESSION_STORAGE_FORMAT;
+  delete process.env.SESSION_ENCRYPTION_KEY;
+  delete process.env.SESSION_ENCRYPTION_REQUIRED;
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+async function createStorage(env: Record<string, string> = {}): Promise<SessionStorage> {
+  Object.assign(process.env, env);
+  const storage = new SessionStorage([]);
+  await storage.initialize();
+  return storage;
+}
+
+function createSessionRoot(content: string): string {
+  const root = path.join(tmpDir, 'source');
+  fs.mkdirSync(path.join(root, 'repo'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'repo', 'README.md'), content);
+  return root;
+}
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => path.join(entry.parentPath ?? entry.path, entry.name));
+}
+
+async function decrypt(encryption: SessionEncryption, content: Buffer): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(Readable.from([content]), encryption.decryptor(), async function* (source) {
+    for await (const chunk of source) {
+      chunks.push(chunk);
+    }
+  });
+  return Buffer.concat(chunks);
+}
+
+test('encrypted blobs are not named by their content hash', async () => {
+  const storage = await createStorage({ SESSION_ENCRYPTION_KEY: KEY });
+  await storage.uploadSession('session-1', createSessionRoot('# known file\n'));
+
+  const sha256 = crypto.createHash('sha256').update('# known file\n').digest('hex');
+  const blobs = listFiles(path.join(storageDir, 'session-1', 'blobs')).map(file => path.basename(file));
+  assert.ok(blobs.length > 0);
+  assert.ok(!blobs.includes(sha256));
+
+  // Named deterministically, so unchanged files are still uploaded once
+  await storage.uploadSession('session-1', createSessionRoot('# known file\n'));
+  assert.equal(listFiles(path.join(storageDir, 'session-1', 'blobs')).length, blobs.length);
+
+  const target = path.join(tmpDir, 'target');
+  await storage.downloadSession('session-1', target);
+  assert.equal(fs.readFileSync(path.join(target, 'repo', 'README.md'), 'utf-8'), '# known file\n');
+});
+
+test('required encryption rejects plaintext objects', async () => {
+  const plain = await createStorage();
+  await plain.uploadSession('session-1', createSessionRoot('plaintext\n'));
+
+  const required = await createStorage({ SESSION_ENCRYPTION_KEY: KEY, SESSION_ENCRYPTION_REQUIRED: 'true' });
+  await assert.rejects(required.downloadSession('session-1', path.join(tmpDir, 'target')), /not encrypted/);
+
+  const encryption = new SessionEncryption([{ id: 'k1', key: Buffer.from(KEY, 'base64') }], true);
+  assert.deepEqual(await decrypt(encryption, encryption.encryptBuffer(Buffer.from('secret'))), Buffer.from('secret'));
+  await assert.rejects(decrypt(encryption, Buffer.from('{"plain":true}')), /not encrypted/);
+  await assert.rejects(decrypt(encryption, Buffer.alloc(0)), /not encrypted/);
+
+  assert.throws(() => new SessionEncryption([], true), /no encryption key/);
+});
+
+test('a tampered encrypted tarball is not extracted', async () => {
+  const storage = await createStorage({ SESSION_ENCRYPTION_KEY: KEY, SESSION_STORAGE_FORMAT: 'tarball' });
+  await storage.uploadSession('session-1', createSessionRoot('original\n'));
+
+  const [snapshotFile] = listFiles(path.join(storageDir, 'session-1', 'snapshots')).filter(file => file.endsWith('.tar.gz'));
+  const content = fs.readFileSync(snapshotFile);
+  content[content.length - 1] ^= 0x01; // Flip a bit of the GCM tag
+  fs.writeFileSync(snapshotFile, content);
+
+  const target = path.join(tmpDir, 'target');
+  await assert.rejects(storage.downloadSession('session-1', target), /failed authentication/);
+  assert.ok(!fs.existsSync(path.join(target, 'repo')));
+  assert.deepEqual(fs.readdirSync(tmpDir).filter(name => name.endsWith('.tar.gz')), []);
+});
@@ -0,0 +1,98 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionGarbageCollector } from '../src/storage/sessionGarbageCollector';
+import { SessionStorage } from '../src/storage/sessionStorage';
+import { SessionMetadata } from '../src/types';
+
+// Retention runs over sessions stored on the local storage backend
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let tmpDir: string;
+let storage: SessionStorage;
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-gc-test-'));
+  process.env.SESSION_STORAGE_BACKEND = 'local';
+  process.env.SESSION_STORAGE_DIR = path.join(tmpDir, 'storage');
+  storage = new SessionStorage([]);
+  await storage.initialize();
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+/**
+ * Store a session last updated the given number of days ago, with an incompressible file of the given size
+ */
+async function storeSession(sessionId: string, idleDays: number, tenant?: string, bytes: number = 1024): Promise<void> {
+  const root = path.join(tmpDir, 'sessions', sessionId);
+  fs.mkdirSync(root, { recursive: true });
+  fs.writeFileSync(path.join(root, 'data.bin'), crypto.randomBytes(bytes));
+
+  // Written directly - saveMetadata would set updatedAt to now
+  const updatedAt = new Date(Date.now() - idleDays * DAY_MS).toISOString();
+  const metadata: SessionMetadata = { sessionId, provider: 'test', tenant, createdAt: updatedAt, updatedAt };
+  fs.writeFileSync(path.join(root, '.session-metadata.json'), JSON.stringify(metadata));
+  await storage.uploadSession(sessionId, root, tenant);
+}
+
+async function storedSessions(tenant?: string): Promise<string[]> {
+  return (await storage.listSessions(tenant)).sort();
+}
+
+test('idle sessions are removed in every tenant, active and locked ones are kept', async () => {
+  await storeSession('idle', 40);
+  await storeSession('recent', 1);
+  await storeSession('running', 40);
+  await storeSession('locked', 40);
+  await storeSession('tenant-idle', 40, 'acme');
+
+  const lock = await storage.lockSession('locked');
+  const collector = new SessionGarbageCollector(storage, (sessionId) => sessionId === 'running');
+
+  const dryRun = await collector.run({ dryRun: true, idleDays: 30 });
+  assert.deepEqual(dryRun.removed.map(s => [s.sessionId, s.tenant, s.reason]), [['idle', undefined, 'idle'], ['tenant-idle', 'acme', 'idle']]);
+  assert.equal(dryRun.skippedActive, 2);
+  assert.equal(dryRun.scannedSessions, 5);
+  assert.deepEqual(await storedSessions(), ['idle', 'locked', 'recent', 'running']);
+
+  const report = await collector.run({ idleDays: 30 });
+  assert.equal(report.removed.length, 2);
+  assert.deepEqual(await storedSessions(), ['locked', 'recent', 'running']);
+  assert.deepEqual(await storedSessions('acme'), []);
+
+  await lock!.release();
+});
+
+test('tenants over their quota lose their least recently used sessions', async () => {
+  await storeSession('oldest', 3, 'acme', 64 * 1024);
+  await storeSession('older', 2, 'acme', 64 * 1024);
+  await storeSession('newest', 1, 'acme', 64 * 1024);
+  await storeSession('default', 3, undefined, 64 * 1024);
+
+  // Room for the two newest sessions only
+  const kept = (await storage.getSessionUsage('older', 'acme')).bytes + (await storage.getSessionUsage('newest', 'acme')).bytes;
+  const collector = new SessionGarbageCollector(storage, () => false);
+  const report = await collector.run({ maxTenantMB: kept / 1024 / 1024 });
+
+  assert.deepEqual(report.removed.map(s => [s.sessionId, s.reason]), [['oldest', 'quota']]);
+  assert.deepEqual(await storedSessions('acme'), ['newest', 'older']);
+  assert.deepEqual(await storedSessions(), ['default']);
+});
+
+test('runs don\'t overlap', async () => {
+  await storeSession('idle', 40);
+  const collector = new SessionGarbageCollector(storage, () => false);
+
+  const first = collector.run({ idleDays: 30 });
+  assert.equal(collector.isRunning(), true);
+  await assert.rejects(collector.run({ idleDays: 30 }), /already running/);
+  assert.equal((await first).removed.length, 1);
+  assert.equal(collector.isRunning(), false);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionIgnore, findIgnoredPaths } from '../src/storage/sessionIgnore';
+
+function ignoredBy(patterns: string[], relativePath: string, isDirectory: boolean = false): boolean {
+  return new SessionIgnore(patterns).ignores(relativePath, isDirectory);
+}
+
+test('patterns follow gitignore syntax', () => {
+  // Unanchored names match at any depth, a slash anchors to the base
+  assert.equal(ignoredBy(['node_modules'], 'repo/web/node_modules', true), true);
+  assert.equal(ignoredBy(['/build'], 'repo/build', true), false);
+  assert.equal(ignoredBy(['repo/build'], 'repo/build', true), true);
+
+  // Directory-only patterns, globs and escapes
+  assert.equal(ignoredBy(['cache/'], 'repo/cache', false), false);
+  assert.equal(ignoredBy(['cache/'], 'repo/cache', true), true);
+  assert.equal(ignoredBy(['*.log'], 'repo/logs/app.log'), true);
+  assert.equal(ignoredBy(['repo/**/*.tmp'], 'repo/a/b/c.tmp'), true);
+  assert.equal(ignoredBy(['repo/**/*.tmp'], 'repo/c.tmp'), true);
+  assert.equal(ignoredBy(['file?.txt'], 'repo/file1.txt'), true);
+  assert.equal(ignoredBy(['file[!0-9].txt'], 'repo/file1.txt'), false);
+  assert.equal(ignoredBy(['\\#notes'], 'repo/#notes'), true);
+  assert.equal(ignoredBy(['# comment', ''], 'repo/# comment'), false);
+
+  // The last matching rule wins
+  assert.equal(ignoredBy(['*.env', '!example.env'], 'repo/example.env'), false);
+  assert.equal(ignoredBy(['!example.env', '*.env'], 'repo/example.env'), true);
+});
+
+test('.sessionignore files apply relative to their directory and excluded directories are not entered', async () => {
+  const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'session-ignore-test-'));
+  try {
+    const write = (relativePath: string, content: string = '') => {
+      fs.mkdirSync(path.dirname(path.join(workspace, relativePath)), { recursive: true });
+      fs.writeFileSync(path.join(workspace, relativePath), content);
+    };
+    write('.sessionignore', 'dist/\n');
+    write('repo/.sessionignore', '/data\n*.bin\n!keep.bin\n');
+    write('repo/data/big.csv');
+    write('repo/src/data/small.csv');
+    write('repo/src/model.bin');
+    write('repo/src/keep.bin');
+    write('repo/dist/.sessionignore', '!*\n');
+    write('repo/dist/app.js');
+    write('repo/tmp/scratch.txt');
+    write('.home/.claude/settings.json');
+
+    const ignore = SessionIgnore.forWorkspace(workspace, ['repo/tmp']);
+    assert.deepEqual(
+      await findIgnoredPaths(workspace, ignore, ['.home']),
+      ['repo/data', 'repo/dist', 'repo/src/model.bin', 'repo/tmp']
+    );
+  } finally {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  }
+});
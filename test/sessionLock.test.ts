@@ -0,0 +1,113 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionLock } from '../src/storage/sessionLock';
+import { SessionStorage } from '../src/storage/sessionStorage';
+import { createStorageBackend, StorageBackend } from '../src/storage/storageBackend';
+
+// Session leases on the local storage backend
+
+const LOCK_OBJECT = 'session-1/lock.json';
+
+let tmpDir: string;
+let backend: StorageBackend;
+
+beforeEach(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-lock-test-'));
+  process.env.SESSION_STORAGE_BACKEND = 'local';
+  process.env.SESSION_STORAGE_DIR = path.join(tmpDir, 'storage');
+  backend = createStorageBackend()!;
+  await backend.initialize();
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+test('a held lock rejects other executions until it is released', async () => {
+  const lock = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 60_000);
+  assert.equal(await SessionLock.isHeld(backend, LOCK_OBJECT), true);
+  await assert.rejects(SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 60_000), /^Error: Session is locked: session-1/);
+
+  await lock.release();
+  assert.equal(await SessionLock.isHeld(backend, LOCK_OBJECT), false);
+
+  const next = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 60_000);
+  await next.release();
+});
+
+test('only one of several executions takes over an expired lock', async () => {
+  const expired = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 50);
+  await wait(100);
+
+  const results = await Promise.allSettled(
+    Array.from({ length: 5 }, () => SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 60_000))
+  );
+  const winners = results.filter((result): result is PromiseFulfilledResult<SessionLock> => result.status === 'fulfilled');
+  assert.equal(winners.length, 1);
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      assert.match(String(result.reason), /Session is locked/);
+    }
+  }
+
+  await winners[0].value.release();
+  await expired.release();
+});
+
+test('releasing an expired lock leaves the lock of the execution that took it over', async () => {
+  const expired = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 50);
+  await wait(100);
+  const current = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 60_000);
+
+  await expired.release();
+  assert.equal(await SessionLock.isHeld(backend, LOCK_OBJECT), true);
+  await current.confirm();
+  assert.equal(current.signal.aborted, false);
+
+  await current.release();
+});
+
+test('a holder whose lock was taken over loses its lease', async () => {
+  const expired = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 50);
+  await wait(100);
+  const current = await SessionLock.acquire(backend, LOCK_OBJECT, 'session-1', 60_000);
+
+  // The renewal in confirm() doesn't overwrite the new holder's lock
+  await assert.rejects(expired.confirm(), /^Error: Session lock lost: session-1/);
+  assert.equal(expired.signal.aborted, true);
+  assert.equal(await SessionLock.isHeld(backend, LOCK_OBJECT), true);
+  await current.confirm();
+
+  await expired.release();
+  await current.release();
+});
+
+test('a stored session can\'t be deleted or restored while it is locked', async () => {
+  const storage = new SessionStorage([]);
+  await storage.initialize();
+  const sessionRoot = path.join(tmpDir, 'session');
+  fs.mkdirSync(path.join(sessionRoot, 'repo'), { recursive: true });
+  fs.writeFileSync(path.join(sessionRoot, 'repo', 'README.md'), '# locked\n');
+  await storage.uploadSession('session-1', sessionRoot);
+  await storage.uploadSession('session-1', sessionRoot);
+
+  const lock = await storage.lockSession('session-1');
+  assert.equal(await storage.isSessionLocked('session-1'), true);
+  await assert.rejects(storage.lockSession('session-1'), /Session is locked/);
+  await assert.rejects(storage.restoreSnapshot('session-1', 1), /Session is locked/);
+  await assert.rejects(storage.deleteSession('session-1'), /Session is locked/);
+  assert.equal(await storage.sessionExists('session-1'), true);
+
+  await lock!.release();
+  assert.equal((await storage.restoreSnapshot('session-1', 1))?.snapshot, 3);
+  assert.ok((await storage.deleteSession('session-1')).length > 0);
+  assert.equal(await storage.sessionExists('session-1'), false);
+  assert.equal(await storage.isSessionLocked('session-1'), false);
+});
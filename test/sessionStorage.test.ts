@@ -0,0 +1,229 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+import { SessionStorage } from '../src/storage/sessionStorage';
+
+// Round trips through SessionStorage on the local storage backend (no MinIO needed)
+
+// Whole seconds, as tar headers don't keep milliseconds
+const FILE_MTIME = new Date('2024-01-02T03:04:05Z');
+const DIR_MTIME = new Date('2024-02-03T04:05:06Z');
+
+let tmpDir: string;
+let storageDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-storage-test-'));
+  storageDir = path.join(tmpDir, 'storage');
+  process.env.SESSION_STORAGE_BACKEND = 'local';
+  process.env.SESSION_STORAGE_DIR = storageDir;
+  delete process.env.SESSION_STORAGE_FORMAT;
+  delete process.env.SESSION_SNAPSHOT_RETENTION;
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+async function createStorage(format?: 'chunked' | 'tarball'): Promise<SessionStorage> {
+  if (format) {
+    process.env.SESSION_STORAGE_FORMAT = format;
+  }
+  const storage = new SessionStorage([{ name: '.claude', secretNames: ['.credentials.json'] }]);
+  await storage.initialize();
+  return storage;
+}
+
+/**
+ * A session root with a file of each interesting kind
+ */
+function createSessionRoot(name: string): string {
+  const root = path.join(tmpDir, name);
+  fs.mkdirSync(path.join(root, 'repo', 'src'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'repo', 'src', 'index.ts'), 'export {};\n');
+  fs.writeFileSync(path.join(root, 'repo', 'run.sh'), '#!/bin/sh\necho hi\n', { mode: 0o755 });
+  fs.writeFileSync(path.join(root, 'repo', 'secret.txt'), 'private\n', { mode: 0o600 });
+  fs.mkdirSync(path.join(root, 'repo', 'empty'));
+  fs.mkdirSync(path.join(root, 'repo', 'private'), { mode: 0o700 });
+  fs.symlinkSync('src/index.ts', path.join(root, 'repo', 'link'));
+  fs.symlinkSync('missing-target', path.join(root, 'repo', 'dangling'));
+  fs.utimesSync(path.join(root, 'repo', 'src', 'index.ts'), FILE_MTIME, FILE_MTIME);
+  fs.utimesSync(path.join(root, 'repo', 'src'), DIR_MTIME, DIR_MTIME);
+
+  const claudeDir = path.join(SessionStorage.getHomeDir(root), '.claude');
+  fs.mkdirSync(claudeDir, { recursive: true });
+  fs.writeFileSync(path.join(claudeDir, 'settings.json'), '{}');
+  fs.writeFileSync(path.join(claudeDir, '.credentials.json'), '{"token":"secret"}');
+  return root;
+}
+
+function mode(filePath: string): number {
+  return fs.lstatSync(filePath).mode & 0o777;
+}
+
+function assertRestored(root: string): void {
+  const repo = path.join(root, 'repo');
+  assert.equal(fs.readFileSync(path.join(repo, 'src', 'index.ts'), 'utf-8'), 'export {};\n');
+  assert.equal(mode(path.join(repo, 'run.sh')), 0o755);
+  assert.equal(mode(path.join(repo, 'secret.txt')), 0o600);
+  assert.deepEqual(fs.readdirSync(path.join(repo, 'empty')), []);
+  assert.equal(mode(path.join(repo, 'private')), 0o700);
+  assert.equal(fs.readlinkSync(path.join(repo, 'link')), 'src/index.ts');
+  assert.ok(fs.lstatSync(path.join(repo, 'link')).isSymbolicLink());
+  assert.equal(fs.readlinkSync(path.join(repo, 'dangling')), 'missing-target');
+  assert.equal(fs.statSync(path.join(repo, 'src', 'index.ts')).mtime.getTime(), FILE_MTIME.getTime());
+  assert.equal(fs.statSync(path.join(repo, 'src')).mtime.getTime(), DIR_MTIME.getTime());
+
+  const claudeDir = path.join(SessionStorage.getHomeDir(root), '.claude');
+  assert.equal(fs.readFileSync(path.join(claudeDir, 'settings.json'), 'utf-8'), '{}');
+  assert.ok(!fs.existsSync(path.join(claudeDir, '.credentials.json')));
+}
+
+function listBlobs(sessionId: string): string[] {
+  const blobDir = path.join(storageDir, sessionId, 'blobs');
+  return fs.existsSync(blobDir) ? fs.readdirSync(blobDir) : [];
+}
+
+for (const format of ['chunked', 'tarball'] as const) {
+  test(`${format} snapshots keep symlinks, modes, mtimes and empty directories`, async () => {
+    const storage = await createStorage(format);
+    await storage.uploadSession('session-1', createSessionRoot('source'));
+
+    const target = path.join(tmpDir, 'target');
+    assert.equal(await storage.downloadSession('session-1', target), 1);
+    assertRestored(target);
+  });
+}
+
+test('reads a legacy session.tar.gz and migrates it to the chunked format', async () => {
+  // Sessions from before snapshots: one archive with the workspace and ~/.claude side by side
+  const packageDir = path.join(tmpDir, 'package');
+  fs.mkdirSync(path.join(packageDir, 'workspace', 'repo'), { recursive: true });
+  fs.mkdirSync(path.join(packageDir, '.claude'), { recursive: true });
+  fs.writeFileSync(path.join(packageDir, 'workspace', 'repo', 'README.md'), '# legacy\n');
+  fs.writeFileSync(path.join(packageDir, '.claude', 'settings.json'), '{"legacy":true}');
+  fs.mkdirSync(path.join(storageDir, 'legacy-session'), { recursive: true });
+  await tar.create(
+    { gzip: true, cwd: packageDir, file: path.join(storageDir, 'legacy-session', 'session.tar.gz') },
+    ['workspace', '.claude']
+  );
+
+  const storage = await createStorage();
+  assert.deepEqual((await storage.listSnapshots('legacy-session')).map(s => [s.snapshot, s.format]), [[0, 'tarball']]);
+
+  const target = path.join(tmpDir, 'target');
+  assert.equal(await storage.downloadSession('legacy-session', target), 0);
+  assert.equal(fs.readFileSync(path.join(target, 'repo', 'README.md'), 'utf-8'), '# legacy\n');
+  assert.equal(
+    fs.readFileSync(path.join(SessionStorage.getHomeDir(target), '.claude', 'settings.json'), 'utf-8'),
+    '{"legacy":true}'
+  );
+
+  assert.deepEqual((await storage.listSnapshots('legacy-session')).map(s => [s.snapshot, s.format]), [[0, 'chunked']]);
+});
+
+test('chunked snapshots store each file content once per session', async () => {
+  const storage = await createStorage('chunked');
+  const root = createSessionRoot('source');
+  fs.writeFileSync(path.join(root, 'repo', 'copy.ts'), 'export {};\n'); // Same content as src/index.ts
+
+  await storage.uploadSession('session-1', root);
+  const firstBlobs = listBlobs('session-1');
+
+  // Unchanged files are not uploaded again; a changed one adds a single blob
+  await storage.uploadSession('session-1', root);
+  assert.deepEqual(listBlobs('session-1'), firstBlobs);
+
+  fs.writeFileSync(path.join(root, 'repo', 'src', 'index.ts'), 'export const changed = true;\n');
+  await storage.uploadSession('session-1', root);
+  const blobs = listBlobs('session-1');
+  assert.equal(blobs.length, firstBlobs.length + 1);
+  assert.ok(firstBlobs.every(blob => blobs.includes(blob)));
+
+  assert.deepEqual((await storage.listSnapshots('session-1')).map(s => s.snapshot), [1, 2, 3]);
+});
+
+test('restoring an earlier snapshot makes it the latest state', async () => {
+  const storage = await createStorage();
+  const root = createSessionRoot('source');
+  const file = path.join(root, 'repo', 'src', 'index.ts');
+
+  await storage.uploadSession('session-1', root);
+  fs.writeFileSync(file, 'export const second = 2;\n');
+  fs.rmSync(path.join(root, 'repo', 'empty'), { recursive: true });
+  await storage.uploadSession('session-1', root);
+
+  const restored = await storage.restoreSnapshot('session-1', 1);
+  assert.equal(restored?.snapshot, 3);
+  assert.equal(restored?.restoredFrom, 1);
+  assert.equal(await storage.restoreSnapshot('session-1', 7), null);
+
+  const target = path.join(tmpDir, 'target');
+  assert.equal(await storage.downloadSession('session-1', target), 3);
+  assertRestored(target);
+
+  // The replaced snapshot is still there
+  const second = path.join(tmpDir, 'second');
+  assert.equal(await storage.downloadSession('session-1', second, undefined, 2), 2);
+  assert.equal(fs.readFileSync(path.join(second, 'repo', 'src', 'index.ts'), 'utf-8'), 'export const second = 2;\n');
+  assert.ok(!fs.existsSync(path.join(second, 'repo', 'empty')));
+});
+
+test('sessions are only visible in their tenant\'s namespace', async () => {
+  const storage = await createStorage();
+  await storage.uploadSession('shared-id', createSessionRoot('acme'), 'acme');
+  await storage.uploadSession('default-only', createSessionRoot('default'));
+
+  assert.deepEqual(await storage.listSessions('acme'), ['shared-id']);
+  assert.deepEqual(await storage.listSessions(), ['default-only']);
+  assert.deepEqual(await storage.listTenants(), ['acme']);
+  assert.equal(await storage.sessionExists('shared-id'), false);
+  assert.equal(await storage.sessionExists('shared-id', 'other'), false);
+  assert.ok(fs.existsSync(path.join(storageDir, 'tenants', 'acme', 'shared-id')));
+
+  // Another tenant's session with the same ID is a new session there
+  const target = path.join(tmpDir, 'target');
+  assert.equal(await storage.downloadSession('shared-id', target, 'other'), null);
+  assert.deepEqual(await storage.deleteSession('shared-id', 'other'), []);
+  assert.equal(await storage.downloadSession('shared-id', target, 'acme'), 1);
+  assertRestored(target);
+});
+
+test('the tenants prefix can\'t be used as a session ID', async () => {
+  const storage = await createStorage();
+  await storage.uploadSession('tenant-session', createSessionRoot('source'), 'acme');
+
+  for (const sessionId of ['tenants', 'Tenants', '../tenants', '']) {
+    assert.equal(SessionStorage.isValidSessionId(sessionId), false);
+    await assert.rejects(storage.deleteSession(sessionId), /Invalid session ID/);
+  }
+  assert.equal(await storage.sessionExists('tenant-session', 'acme'), true);
+});
+
+for (const format of ['chunked', 'tarball'] as const) {
+  test(`${format} snapshots leave out excluded paths but never the session records`, async () => {
+    const storage = await createStorage(format);
+    const root = createSessionRoot('source');
+    fs.mkdirSync(path.join(root, 'repo', 'node_modules', 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'repo', 'node_modules', 'lib', 'index.js'), '');
+    fs.writeFileSync(path.join(root, 'repo', 'build.log'), '');
+    fs.writeFileSync(path.join(root, '.sessionignore'), 'node_modules/\n*.json\n*.jsonl\n');
+    fs.writeFileSync(path.join(root, '.session-metadata.json'), '{}');
+    fs.writeFileSync(path.join(root, '.stream-events.jsonl'), '');
+
+    const exclude = ['*.log'];
+    assert.deepEqual(await storage.findExcludedPaths(root, exclude), ['repo/build.log', 'repo/node_modules']);
+    await storage.uploadSession('session-1', root, undefined, { exclude });
+
+    const target = path.join(tmpDir, 'target');
+    await storage.downloadSession('session-1', target);
+    assertRestored(target);
+    assert.ok(!fs.existsSync(path.join(target, 'repo', 'node_modules')));
+    assert.ok(!fs.existsSync(path.join(target, 'repo', 'build.log')));
+    assert.ok(fs.existsSync(path.join(target, '.session-metadata.json')));
+    assert.ok(fs.existsSync(path.join(target, '.stream-events.jsonl')));
+  });
+}